@@ -1,36 +1,19 @@
-'use client';
+/**
+ * Home page
+ * Recording, uploads, imports, transcript search and session history for the signed-in user
+ */
 
-import { useEffect } from 'react';
-import { useRouter } from 'next/navigation';
-import { authClient } from '@/lib/auth-client';
+import { requireSession } from '@/lib/serverSession';
 import RecordingControls from '@/components/RecordingControls';
+import UploadRecording from '@/components/UploadRecording';
+import ImportTranscript from '@/components/ImportTranscript';
+import TranscriptSearch from '@/components/TranscriptSearch';
 import SessionHistory from '@/components/SessionHistory';
 import AuthButton from '@/components/AuthButton';
 
-export default function Home() {
-  const router = useRouter();
-  
-  // Use Better Auth's React hook for session management
-  const { data: session, isPending: loading } = authClient.useSession();
-
-  useEffect(() => {
-    // Redirect to login if not authenticated
-    if (!loading && !session) {
-      router.push('/login');
-    }
-  }, [session, loading, router]);
-
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-      </div>
-    );
-  }
-
-  if (!session) {
-    return null; // Will redirect to login
-  }
+export default async function Home() {
+  // Verified on the server; signed-out visitors are redirected to /login
+  await requireSession();
 
   return (
     <main className="min-h-screen bg-gray-50 py-8">
@@ -41,7 +24,10 @@ export default function Home() {
         </div>
       </div>
       <RecordingControls />
+      <UploadRecording />
+      <ImportTranscript />
       <div className="mt-12">
+        <TranscriptSearch />
         <SessionHistory />
       </div>
     </main>
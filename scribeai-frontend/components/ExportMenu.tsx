@@ -0,0 +1,67 @@
+/**
+ * Export menu component
+ * Downloads a session as subtitles, a document or a JSON bundle
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { apiDownload } from '@/lib/api';
+
+const EXPORT_OPTIONS = [
+  { format: 'md', label: 'Markdown (.md)' },
+  { format: 'docx', label: 'Word (.docx)' },
+  { format: 'pdf', label: 'PDF (.pdf)' },
+  { format: 'srt', label: 'Subtitles (.srt)' },
+  { format: 'vtt', label: 'WebVTT (.vtt)' },
+  { format: 'json', label: 'JSON bundle (.json)' },
+] as const;
+
+interface ExportMenuProps {
+  sessionId: string;
+}
+
+export default function ExportMenu({ sessionId }: ExportMenuProps) {
+  const [format, setFormat] = useState<(typeof EXPORT_OPTIONS)[number]['format']>('md');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportSession = async () => {
+    setExporting(true);
+    setError(null);
+
+    try {
+      await apiDownload(`/sessions/${sessionId}/export?format=${format}`, `session-${sessionId}.${format}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as typeof format)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+        >
+          {EXPORT_OPTIONS.map((option) => (
+            <option key={option.format} value={option.format}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={exportSession}
+          disabled={exporting}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+        >
+          {exporting ? 'Exporting...' : 'Export'}
+        </button>
+      </div>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  );
+}
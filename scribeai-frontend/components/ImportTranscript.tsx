@@ -0,0 +1,121 @@
+/**
+ * Import transcript component
+ * Turns a .txt/.vtt/.srt transcript from another tool into a summarized session
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { apiFetch } from '@/lib/api';
+import { listSummarizers, SummarizerInfo } from '@/lib/socket';
+
+const ACCEPTED_FILES = '.txt,.vtt,.srt,text/plain,text/vtt';
+
+export default function ImportTranscript() {
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState('');
+  const [summarizers, setSummarizers] = useState<SummarizerInfo[]>([]);
+  const [summarizer, setSummarizer] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [importedSessionId, setImportedSessionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Load the summarizers the server offers
+  useEffect(() => {
+    listSummarizers()
+      .then(({ summarizers, defaultSummarizer }) => {
+        setSummarizers(summarizers);
+        setSummarizer(defaultSummarizer);
+      })
+      .catch((err) => {
+        console.error('Failed to load summarizers:', err);
+      });
+  }, []);
+
+  const importTranscript = async () => {
+    if (!file) return;
+
+    setImporting(true);
+    setError(null);
+
+    const form = new FormData();
+    if (title.trim()) form.append('title', title.trim());
+    if (summarizer) form.append('summarizer', summarizer);
+    form.append('file', file);
+
+    try {
+      const { sessionId } = await apiFetch<{ sessionId: string }>('/imports', { method: 'POST', body: form });
+      setImportedSessionId(sessionId);
+      setFile(null);
+      setTitle('');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-6 mt-6">
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold mb-1 text-gray-900">Import a Transcript</h2>
+        <p className="mb-4 text-sm text-gray-600">
+          .txt, .vtt or .srt; speakers come from VTT voice tags or &quot;Name:&quot; prefixes
+        </p>
+
+        <div className="space-y-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_FILES}
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="block w-full text-sm text-gray-700"
+          />
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={file ? file.name.replace(/\.[^.]+$/, '') : 'Title (optional)'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+          />
+          {summarizers.length > 1 && (
+            <select
+              value={summarizer}
+              onChange={(e) => setSummarizer(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+            >
+              {summarizers.map((option) => (
+                <option key={option.name} value={option.name}>
+                  {option.name} ({option.version})
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={importTranscript}
+            disabled={!file || importing}
+            className="px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg font-semibold transition-colors"
+          >
+            {importing ? 'Importing & Summarizing...' : 'Import & Summarize'}
+          </button>
+        </div>
+
+        {importedSessionId && (
+          <div className="mt-4 flex items-center gap-4">
+            <span className="text-green-700">Transcript imported.</span>
+            <Link href={`/sessions/${importedSessionId}`} className="text-blue-600 hover:text-blue-700 underline">
+              View session
+            </Link>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg">{error}</div>
+        )}
+      </div>
+    </div>
+  );
+}
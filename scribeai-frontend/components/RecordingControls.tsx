@@ -5,25 +5,43 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAudioRecorder, AudioSource } from '@/hooks/useAudioRecorder';
-import { getSocket, initializeSocket, SocketEvents } from '@/lib/socket';
-import { authClient } from '@/lib/auth-client';
+import {
+  initializeSocket,
+  listSummarizers,
+  markChunkSeen,
+  SocketEvents,
+  SummarizerInfo,
+  TranscriptSegment,
+} from '@/lib/socket';
+import { clearPendingChunks } from '@/lib/chunkStore';
+import type { SummaryData } from '@/lib/summary';
+import SpeakerTranscript from '@/components/SpeakerTranscript';
 import { v4 as uuidv4 } from 'uuid';
 
 export default function RecordingControls() {
   const [sessionId, setSessionId] = useState<string>('');
   const [audioSource, setAudioSource] = useState<AudioSource>('microphone');
-  const [liveTranscript, setLiveTranscript] = useState<string>('');
+  const [summarizers, setSummarizers] = useState<SummarizerInfo[]>([]);
+  const [summarizer, setSummarizer] = useState<string>('');
+  const [usedSummarizer, setUsedSummarizer] = useState<SummarizerInfo | null>(null);
+  // Live transcript keyed by chunk index; updates can arrive out of order
+  const [liveChunks, setLiveChunks] = useState<Map<number, { text: string; segments: TranscriptSegment[] }>>(
+    new Map()
+  );
+  const [failedChunks, setFailedChunks] = useState<Set<number>>(new Set());
+  const [retryingChunks, setRetryingChunks] = useState<Map<number, number>>(new Map()); // index -> attempt
   const [processingStatus, setProcessingStatus] = useState<string>('');
   const [sessionComplete, setSessionComplete] = useState(false);
-  const [summary, setSummary] = useState<any>(null);
-  const [userId, setUserId] = useState<string | null>(null);
+  const [summary, setSummary] = useState<SummaryData | null>(null);
+  const [missingChunks, setMissingChunks] = useState<number[]>([]);
 
   const {
     status,
     error,
     duration,
+    pendingChunks,
     startRecording,
     pauseRecording,
     resumeRecording,
@@ -31,73 +49,124 @@ export default function RecordingControls() {
   } = useAudioRecorder({
     sessionId,
     audioSource,
-    userId: userId || undefined,
+    summarizer: summarizer || undefined,
     chunkDuration: 30000, // 30 seconds
   });
 
-  // Get user session using Better Auth React hook
-  const { data: session } = authClient.useSession();
-  
+  // The socket also receives events for the user's other sessions (e.g. uploads); listeners filter on this
+  const sessionIdRef = useRef('');
   useEffect(() => {
-    setUserId(session?.user?.id || null);
-  }, [session]);
+    sessionIdRef.current = sessionId;
+  }, [sessionId]);
 
   // Initialize session ID
   useEffect(() => {
     setSessionId(uuidv4());
   }, []);
 
+  // Load the summarizers the server offers
+  useEffect(() => {
+    listSummarizers()
+      .then(({ summarizers, defaultSummarizer }) => {
+        setSummarizers(summarizers);
+        setSummarizer(defaultSummarizer);
+      })
+      .catch((err) => {
+        console.error('Failed to load summarizers:', err);
+      });
+  }, []);
+
   // Setup socket listeners
   useEffect(() => {
     const socket = initializeSocket();
 
-    socket.on('transcription-update', (data: SocketEvents['transcription-update']) => {
-      setLiveTranscript((prev) => prev + ' ' + data.text);
+    const onTranscriptionUpdate = (data: SocketEvents['transcription-update']) => {
+      if (data.sessionId !== sessionIdRef.current) return;
+      // Replays after a reconnect may repeat chunks we already have
+      if (!markChunkSeen(data.sessionId, data.chunkIndex)) return;
+      setLiveChunks((prev) =>
+        new Map(prev).set(data.chunkIndex, { text: data.text, segments: data.segments ?? [] })
+      );
       console.log('Transcription update:', data);
-    });
+    };
 
-    socket.on('session-status', (data: SocketEvents['session-status']) => {
+    const onSessionStatus = (data: SocketEvents['session-status']) => {
+      if (data.sessionId !== sessionIdRef.current) return;
       setProcessingStatus(`Status: ${data.status}`);
       console.log('Session status:', data);
-    });
+    };
 
-    socket.on('chunk-processing', (data: SocketEvents['chunk-processing']) => {
+    const onChunkProcessing = (data: SocketEvents['chunk-processing']) => {
       setProcessingStatus(`Processing chunk ${data.chunkIndex}...`);
-    });
+    };
 
-    socket.on('session-complete', (data: SocketEvents['session-complete']) => {
+    const onSessionComplete = (data: SocketEvents['session-complete']) => {
+      if (data.sessionId !== sessionIdRef.current) return;
       setSessionComplete(true);
       setSummary(data.summary);
+      setUsedSummarizer(data.summarizer);
+      setMissingChunks(data.missingChunks ?? []);
       setProcessingStatus('Session completed!');
+      // Anything still buffered can no longer make it into this session
+      clearPendingChunks(data.sessionId).catch((err) => {
+        console.error('Failed to clear buffered chunks:', err);
+      });
       console.log('Session complete:', data);
-    });
+    };
+
+    const onChunkRetrying = (data: SocketEvents['chunk-retrying']) => {
+      if (data.sessionId !== sessionIdRef.current) return;
+      setRetryingChunks((prev) => new Map(prev).set(data.chunkIndex, data.attempt));
+      console.warn('Retrying chunk:', data);
+    };
 
-    socket.on('transcription-error', (data: SocketEvents['transcription-error']) => {
-      console.error('Transcription error:', data);
-    });
+    const onChunkFailed = (data: SocketEvents['chunk-failed']) => {
+      if (data.sessionId !== sessionIdRef.current) return;
+      setFailedChunks((prev) => new Set(prev).add(data.chunkIndex));
+      console.error('Chunk failed:', data);
+    };
+
+    const onError = (data: SocketEvents['error']) => {
+      console.error('Socket error:', data.code ?? 'unknown', data.message);
+    };
 
-    socket.on('error', (data: SocketEvents['error']) => {
-      console.error('Socket error:', data.message);
-    });
+    socket.on('transcription-update', onTranscriptionUpdate);
+    socket.on('session-status', onSessionStatus);
+    socket.on('chunk-processing', onChunkProcessing);
+    socket.on('session-complete', onSessionComplete);
+    socket.on('chunk-retrying', onChunkRetrying);
+    socket.on('chunk-failed', onChunkFailed);
+    socket.on('error', onError);
 
     return () => {
-      socket.off('transcription-update');
-      socket.off('session-status');
-      socket.off('chunk-processing');
-      socket.off('session-complete');
-      socket.off('transcription-error');
-      socket.off('error');
+      socket.off('transcription-update', onTranscriptionUpdate);
+      socket.off('session-status', onSessionStatus);
+      socket.off('chunk-processing', onChunkProcessing);
+      socket.off('session-complete', onSessionComplete);
+      socket.off('chunk-retrying', onChunkRetrying);
+      socket.off('chunk-failed', onChunkFailed);
+      socket.off('error', onError);
     };
   }, []);
 
   const handleStartNewSession = () => {
     setSessionId(uuidv4());
-    setLiveTranscript('');
+    setLiveChunks(new Map());
+    setFailedChunks(new Set());
+    setRetryingChunks(new Map());
     setProcessingStatus('');
     setSessionComplete(false);
     setSummary(null);
+    setUsedSummarizer(null);
+    setMissingChunks([]);
   };
 
+  // Every index up to the latest one we know about, so gaps show up in place
+  const liveChunkIndices = Array.from(
+    { length: Math.max(-1, ...liveChunks.keys(), ...failedChunks) + 1 },
+    (_, index) => index
+  );
+
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -144,6 +213,26 @@ export default function RecordingControls() {
               </div>
             </button>
           </div>
+
+          {summarizers.length > 1 && (
+            <div className="mt-4">
+              <label htmlFor="summarizer" className="block text-sm font-medium text-gray-700 mb-1">
+                Summarizer
+              </label>
+              <select
+                id="summarizer"
+                value={summarizer}
+                onChange={(e) => setSummarizer(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+              >
+                {summarizers.map((option) => (
+                  <option key={option.name} value={option.name}>
+                    {option.name} ({option.version})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
       )}
 
@@ -230,6 +319,12 @@ export default function RecordingControls() {
           )}
         </div>
 
+        {pendingChunks > 0 && (
+          <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg text-sm">
+            {pendingChunks} {pendingChunks === 1 ? 'chunk' : 'chunks'} waiting to upload
+          </div>
+        )}
+
         {error && (
           <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg">
             {typeof error === 'string' ? error : error?.message || 'An error occurred'}
@@ -238,11 +333,35 @@ export default function RecordingControls() {
       </div>
 
       {/* Live Transcript */}
-      {liveTranscript && (
+      {liveChunkIndices.length > 0 && (
         <div className="bg-white rounded-lg border border-gray-200 p-6">
           <h2 className="text-lg font-semibold mb-3 text-gray-900">Live Transcript</h2>
           <div className="max-h-64 overflow-y-auto p-4 bg-gray-50 rounded-lg border border-gray-100">
-            <p className="whitespace-pre-wrap text-gray-700">{liveTranscript}</p>
+            <ol className="space-y-2">
+              {liveChunkIndices.map((index) => (
+                <li key={index} className="whitespace-pre-wrap text-gray-700">
+                  {liveChunks.has(index) ? (
+                    liveChunks.get(index)!.segments.length > 0 ? (
+                      <SpeakerTranscript segments={liveChunks.get(index)!.segments} />
+                    ) : (
+                      liveChunks.get(index)!.text
+                    )
+                  ) : failedChunks.has(index) ? (
+                    <span className="italic text-red-600">
+                      Chunk {index + 1} could not be transcribed
+                    </span>
+                  ) : retryingChunks.has(index) ? (
+                    <span className="italic text-yellow-700">
+                      Retrying chunk {index + 1} (attempt {retryingChunks.get(index)! + 1})...
+                    </span>
+                  ) : (
+                    <span className="italic text-gray-400">
+                      Transcribing chunk {index + 1}...
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
           </div>
         </div>
       )}
@@ -250,7 +369,19 @@ export default function RecordingControls() {
       {/* Summary */}
       {sessionComplete && summary && (
         <div className="bg-white rounded-lg border border-gray-200 p-6">
-          <h2 className="text-lg font-semibold mb-4 text-gray-900">Session Summary</h2>
+          <h2 className="text-lg font-semibold mb-1 text-gray-900">Session Summary</h2>
+          {usedSummarizer && (
+            <p className="mb-4 text-sm text-gray-500">
+              Generated by {usedSummarizer.name} ({usedSummarizer.version})
+            </p>
+          )}
+
+          {missingChunks.length > 0 && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg text-sm">
+              Some audio could not be transcribed and is missing from this summary
+              (chunks {missingChunks.map((index) => index + 1).join(', ')}).
+            </div>
+          )}
           
           <div className="space-y-4">
             <div>
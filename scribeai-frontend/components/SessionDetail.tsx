@@ -0,0 +1,247 @@
+/**
+ * Session detail component
+ * View complete transcript and summary for a session, and play back its audio
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Session, Transcript, TranscriptSegmentRow } from '@/lib/types';
+import { getAllChunks, getTranscript } from '@/lib/sessions';
+import { parseStoredSummary, SUMMARY_SCHEMA_VERSION } from '@/lib/summary';
+import { applySpeakerNames, applySpeakerNamesToSummary, speakerName } from '@/lib/speakers';
+import { activeSegmentIndex, ChunkOffset, toTimedSegments } from '@/lib/playback';
+import SpeakerTranscript from '@/components/SpeakerTranscript';
+import TranscriptPlayer from '@/components/TranscriptPlayer';
+import SpeakerNamesEditor from '@/components/SpeakerNamesEditor';
+import ExportMenu from '@/components/ExportMenu';
+import Link from 'next/link';
+
+interface SessionDetailProps {
+  session: Session; // Loaded on the server, which has checked the user owns it
+  initialTimeMs?: number; // Recording position to open the transcript at
+}
+
+export default function SessionDetail({ session, initialTimeMs }: SessionDetailProps) {
+  const sessionId = session.id;
+
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [segments, setSegments] = useState<TranscriptSegmentRow[]>([]);
+  const [chunkOffsets, setChunkOffsets] = useState<ChunkOffset[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadSessionData = useCallback(async () => {
+    try {
+      setTranscript(await getTranscript(sessionId));
+
+      // Segments come with their chunks (sessions recorded before diarization have none), and each
+      // chunk's media offset places its segments for playback
+      const chunks = await getAllChunks(sessionId).catch((err) => {
+        console.error('Error loading transcript chunks:', err);
+        return [];
+      });
+      setSegments(chunks.flatMap((chunk) => chunk.segments));
+      setChunkOffsets(chunks);
+    } catch (err) {
+      console.error('Failed to load session data:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadSessionData();
+  }, [loadSessionData]);
+
+  const formatDuration = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}m ${secs}s`;
+  };
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!transcript) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Transcript not available</h1>
+          <Link
+            href="/"
+            className="text-blue-600 hover:text-blue-700 underline"
+          >
+            Go back to home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const speakerNames = transcript.speaker_names ?? {};
+  const storedSummary = parseStoredSummary(transcript.summary);
+  const summary = storedSummary && applySpeakerNamesToSummary(storedSummary, speakerNames);
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12">
+      <div className="max-w-5xl mx-auto px-6">
+        {/* Header */}
+        <div className="mb-6">
+          <Link
+            href="/"
+            className="text-blue-600 hover:text-blue-700 mb-4 inline-block"
+          >
+            ← Back to Home
+          </Link>
+          <h1 className="text-3xl font-bold mb-2 text-gray-900">{session.title}</h1>
+          <div className="flex items-center gap-4 text-sm text-gray-600">
+            <span>{formatDate(session.created_at)}</span>
+            <span>•</span>
+            <span>{formatDuration(session.duration)}</span>
+            <span>•</span>
+            <span className="capitalize">
+              {session.audio_source.replace('_', ' ')}
+            </span>
+            {transcript.speakers && transcript.speakers.length > 0 && (
+              <>
+                <span>•</span>
+                <span>{transcript.speakers.map((label) => speakerName(label, speakerNames)).join(', ')}</span>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Speaker Names */}
+        {transcript.speakers && transcript.speakers.length > 0 && (
+          <SpeakerNamesEditor
+            sessionId={sessionId}
+            speakers={transcript.speakers}
+            names={speakerNames}
+            onNamesSaved={(names) => setTranscript({ ...transcript, speaker_names: names })}
+            onSummaryRegenerated={(regenerated, summarizer) =>
+              setTranscript({
+                ...transcript,
+                summary: { schemaVersion: SUMMARY_SCHEMA_VERSION, ...regenerated },
+                summarizer: summarizer.name,
+                summarizer_version: summarizer.version,
+              })
+            }
+          />
+        )}
+
+        {/* Summary */}
+        {summary && (
+          <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
+            <h2 className="text-2xl font-bold mb-1 text-gray-900">Summary</h2>
+            {transcript.summarizer && (
+              <p className="mb-4 text-sm text-gray-500">
+                Generated by {transcript.summarizer}
+                {transcript.summarizer_version && ` (${transcript.summarizer_version})`}
+              </p>
+            )}
+            <div className="space-y-4">
+              <div>
+                <p className="text-gray-700">
+                  {summary.summary}
+                </p>
+              </div>
+
+              {summary.keyPoints && summary.keyPoints.length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-2 text-gray-900">Key Points</h3>
+                  <ul className="list-disc list-inside space-y-1">
+                    {summary.keyPoints.map((point: string, idx: number) => (
+                      <li
+                        key={idx}
+                        className="text-gray-700"
+                      >
+                        {point}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {summary.actionItems && summary.actionItems.length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-2 text-gray-900">Action Items</h3>
+                  <ul className="list-disc list-inside space-y-1">
+                    {summary.actionItems.map((item: string, idx: number) => (
+                      <li
+                        key={idx}
+                        className="text-gray-700"
+                      >
+                        {item}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {summary.decisions && summary.decisions.length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-2 text-gray-900">Decisions</h3>
+                  <ul className="list-disc list-inside space-y-1">
+                    {summary.decisions.map((decision: string, idx: number) => (
+                      <li
+                        key={idx}
+                        className="text-gray-700"
+                      >
+                        {decision}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Full Transcript */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold text-gray-900">Full Transcript</h2>
+            <ExportMenu sessionId={sessionId} />
+          </div>
+          <div className="prose max-w-none">
+            {segments.length > 0 && session.audio_path ? (
+              <TranscriptPlayer
+                sessionId={sessionId}
+                startAtMs={initialTimeMs}
+                segments={toTimedSegments(segments, chunkOffsets).map((segment) => ({
+                  ...segment,
+                  speaker: speakerName(segment.speaker, speakerNames),
+                }))}
+              />
+            ) : segments.length > 0 ? (
+              <SpeakerTranscript
+                segments={segments.map((segment) => ({
+                  speaker: speakerName(segment.speaker, speakerNames),
+                  text: segment.text,
+                }))}
+                activeIndex={
+                  initialTimeMs !== undefined
+                    ? activeSegmentIndex(toTimedSegments(segments, chunkOffsets), initialTimeMs)
+                    : undefined
+                }
+              />
+            ) : (
+              <p className="whitespace-pre-wrap text-gray-700">
+                {applySpeakerNames(transcript.full_text, speakerNames)}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -5,56 +5,73 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
-import { supabase, Session, Transcript } from '@/lib/supabase';
+import { useState, useEffect, useCallback } from 'react';
+import { Session } from '@/lib/types';
+import { listSessions } from '@/lib/sessions';
 import { authClient } from '@/lib/auth-client';
 import Link from 'next/link';
 
+const PAGE_SIZE = 10;
+
+const STATUS_FILTERS: { value: '' | Session['status']; label: string }[] = [
+  { value: '', label: 'All statuses' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'recording', label: 'Recording' },
+  { value: 'paused', label: 'Paused' },
+  { value: 'failed', label: 'Failed' },
+];
+
 export default function SessionHistory() {
   const [sessions, setSessions] = useState<Session[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [status, setStatus] = useState<'' | Session['status']>('');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState(''); // Search applied once the user stops typing
   const [loading, setLoading] = useState(true);
   
   // Use Better Auth React hook for session management
   const { data: session } = authClient.useSession();
   const userId = session?.user?.id || null;
 
+  const loadSessions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { sessions, pagination } = await listSessions({
+        status: status || undefined,
+        q: query || undefined,
+        limit: PAGE_SIZE,
+        offset,
+      });
+
+      setSessions(sessions);
+      setTotal(pagination.total);
+    } catch (err) {
+      console.error('Failed to load sessions:', err instanceof Error ? err.message : err);
+      setSessions([]); // Set empty array on error
+      setTotal(0);
+    } finally {
+      setLoading(false);
+    }
+  }, [status, query, offset]);
+
   useEffect(() => {
     if (userId) {
-      loadSessions(userId);
+      loadSessions();
     } else {
       setLoading(false);
     }
-  }, [userId]);
+  }, [userId, loadSessions]);
 
-  const loadSessions = async (uid: string) => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('sessions')
-        .select('*')
-        .eq('user_id', uid)
-        .order('created_at', { ascending: false })
-        .limit(10);
-
-      if (error) {
-        console.error('Error loading sessions:', {
-          message: error.message,
-          code: error.code,
-          details: error.details,
-          hint: error.hint
-        });
-        setSessions([]); // Set empty array on error
-        return;
-      }
-
-      setSessions(data || []);
-    } catch (err: any) {
-      console.error('Failed to load sessions:', err?.message || err);
-      setSessions([]);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Debounce the title search and start again from the first page
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(search.trim());
+      setOffset(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
 
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -83,30 +100,56 @@ export default function SessionHistory() {
     }
   };
 
-  if (loading) {
-    return (
-      <div className="flex justify-center items-center py-12">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-      </div>
-    );
-  }
-
   return (
     <div className="w-full max-w-5xl mx-auto px-6">
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-gray-900">Session History</h2>
         <button
-          onClick={() => userId && loadSessions(userId)}
+          onClick={() => userId && loadSessions()}
           className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors border border-gray-200"
         >
           Refresh
         </button>
       </div>
 
+      {userId && (
+        <div className="flex flex-col sm:flex-row gap-3 mb-4">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search titles"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+          />
+          <select
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value as typeof status);
+              setOffset(0);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+          >
+            {STATUS_FILTERS.map((filter) => (
+              <option key={filter.value} value={filter.value}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {!userId ? (
         <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
           <p className="text-gray-600">Please sign in to view your sessions</p>
         </div>
+      ) : loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : sessions.length === 0 && (status || query) ? (
+        <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+          <p className="text-gray-600">No sessions match these filters</p>
+        </div>
       ) : sessions.length === 0 ? (
         <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
           <p className="text-gray-600">No sessions yet</p>
@@ -154,6 +197,30 @@ export default function SessionHistory() {
               </div>
             </div>
           ))}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between pt-2 text-sm text-gray-600">
+              <span>
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                  disabled={offset === 0}
+                  className="px-4 py-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 rounded-lg transition-colors border border-gray-200"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={offset + PAGE_SIZE >= total}
+                  className="px-4 py-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 rounded-lg transition-colors border border-gray-200"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,115 @@
+/**
+ * Speaker names editor
+ * Maps diarized labels ("Speaker 1") to participant names and can regenerate the summary with them
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { apiFetch } from '@/lib/api';
+import type { SpeakerNames } from '@/lib/speakers';
+import type { SummaryData } from '@/lib/summary';
+import type { SummarizerInfo } from '@/lib/socket';
+
+interface SpeakerNamesEditorProps {
+  sessionId: string;
+  speakers: string[];
+  names: SpeakerNames;
+  onNamesSaved: (names: SpeakerNames) => void;
+  onSummaryRegenerated: (summary: SummaryData, summarizer: SummarizerInfo) => void;
+}
+
+export default function SpeakerNamesEditor({
+  sessionId,
+  speakers,
+  names,
+  onNamesSaved,
+  onSummaryRegenerated,
+}: SpeakerNamesEditorProps) {
+  const [draft, setDraft] = useState<SpeakerNames>(names);
+  const [saving, setSaving] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDirty = speakers.some((label) => (draft[label] ?? '').trim() !== (names[label] ?? ''));
+
+  const saveNames = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const { speakerNames } = await apiFetch<{ speakerNames: SpeakerNames }>(
+        `/sessions/${sessionId}/speakers`,
+        { method: 'PUT', body: JSON.stringify({ names: draft }) }
+      );
+      onNamesSaved(speakerNames);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save speaker names');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const regenerateSummary = async () => {
+    setRegenerating(true);
+    setError(null);
+    try {
+      const { summary, summarizer } = await apiFetch<{ summary: SummaryData; summarizer: SummarizerInfo }>(
+        `/sessions/${sessionId}/summary`,
+        { method: 'POST', body: JSON.stringify({}) }
+      );
+      onSummaryRegenerated(summary, summarizer);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate summary');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
+      <h2 className="text-2xl font-bold mb-4 text-gray-900">Speakers</h2>
+      <div className="space-y-3">
+        {speakers.map((label) => (
+          <div key={label} className="flex items-center gap-4">
+            <label htmlFor={`speaker-${label}`} className="w-32 text-sm font-medium text-gray-700">
+              {label}
+            </label>
+            <input
+              id={`speaker-${label}`}
+              type="text"
+              value={draft[label] ?? ''}
+              onChange={(e) => setDraft((prev) => ({ ...prev, [label]: e.target.value }))}
+              placeholder="Participant name"
+              maxLength={100}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-4 flex gap-3">
+        <button
+          onClick={saveNames}
+          disabled={saving || !isDirty}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save Names'}
+        </button>
+        <button
+          onClick={regenerateSummary}
+          disabled={regenerating || isDirty}
+          title={isDirty ? 'Save names first' : undefined}
+          className="px-4 py-2 border border-gray-300 hover:bg-gray-50 disabled:text-gray-400 text-gray-700 rounded-lg transition-colors"
+        >
+          {regenerating ? 'Regenerating...' : 'Regenerate Summary with Names'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * Speaker-by-speaker transcript
+ * Merges consecutive segments from the same speaker into one turn; segments can be highlighted
+ * and clicked when the transcript follows audio playback
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+interface SpeakerTranscriptProps {
+  segments: { speaker?: string; text: string }[];
+  activeIndex?: number;
+  onSegmentClick?: (index: number) => void;
+}
+
+interface Turn {
+  speaker?: string;
+  segmentIndices: number[];
+}
+
+export default function SpeakerTranscript({ segments, activeIndex, onSegmentClick }: SpeakerTranscriptProps) {
+  const activeRef = useRef<HTMLSpanElement | null>(null);
+
+  // Keep the highlighted segment in view as playback moves on
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  const turns = segments.reduce<Turn[]>((acc, segment, index) => {
+    const last = acc[acc.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.segmentIndices.push(index);
+    } else {
+      acc.push({ speaker: segment.speaker, segmentIndices: [index] });
+    }
+    return acc;
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      {turns.map((turn, idx) => (
+        <p key={idx} className="whitespace-pre-wrap text-gray-700">
+          {turn.speaker && (
+            <span className="font-semibold text-gray-900">{turn.speaker}: </span>
+          )}
+          {turn.segmentIndices.map((index, position) => (
+            <span key={index}>
+              {position > 0 && ' '}
+              <span
+                ref={index === activeIndex ? activeRef : undefined}
+                onClick={onSegmentClick ? () => onSegmentClick(index) : undefined}
+                className={`${onSegmentClick ? 'cursor-pointer hover:bg-blue-50 rounded' : ''} ${
+                  index === activeIndex ? 'bg-yellow-100 rounded' : ''
+                }`}
+              >
+                {segments[index].text}
+              </span>
+            </span>
+          ))}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * Transcript player
+ * Plays a session's original audio and highlights the segment being spoken; clicking a segment
+ * seeks to it. `startAtMs` cues the audio and transcript to a position, e.g. a search match
+ */
+
+'use client';
+
+import { useRef, useState } from 'react';
+import { API_URL } from '@/lib/api';
+import {
+  activeSegmentIndex,
+  hasSegmentTiming,
+  skipSilenceTarget,
+  TimedSegment,
+} from '@/lib/playback';
+import SpeakerTranscript from '@/components/SpeakerTranscript';
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+interface TranscriptPlayerProps {
+  sessionId: string;
+  segments: TimedSegment[];
+  startAtMs?: number;
+}
+
+export default function TranscriptPlayer({ sessionId, segments, startAtMs }: TranscriptPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [currentMs, setCurrentMs] = useState(startAtMs ?? 0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [skipSilence, setSkipSilence] = useState(false);
+  const [audioError, setAudioError] = useState(false);
+  // Cueing to a position counts as started, so the transcript scrolls to it
+  const [started, setStarted] = useState(startAtMs !== undefined);
+
+  const timed = hasSegmentTiming(segments);
+  // No highlight until playback starts, so the page does not scroll to the transcript on load
+  const activeIndex = timed && started ? activeSegmentIndex(segments, currentMs) : -1;
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const timeMs = audio.currentTime * 1000;
+
+    if (skipSilence && timed && !audio.paused) {
+      const target = skipSilenceTarget(segments, timeMs);
+      if (target !== null) {
+        audio.currentTime = target / 1000;
+        setCurrentMs(target);
+        return;
+      }
+    }
+
+    setCurrentMs(timeMs);
+  };
+
+  const seekToSegment = (index: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.currentTime = segments[index].startMs / 1000;
+    setCurrentMs(segments[index].startMs);
+    audio.play().catch((err) => console.error('Playback failed:', err));
+  };
+
+  const changePlaybackRate = (rate: number) => {
+    setPlaybackRate(rate);
+    if (audioRef.current) {
+      audioRef.current.playbackRate = rate;
+    }
+  };
+
+  return (
+    <div>
+      {audioError ? (
+        <p className="mb-4 text-sm text-gray-500">The audio for this session could not be loaded.</p>
+      ) : (
+        <div className="sticky top-0 z-10 mb-4 bg-white pb-3 border-b border-gray-200">
+          <audio
+            ref={audioRef}
+            src={`${API_URL}/api/v1/sessions/${sessionId}/audio`}
+            crossOrigin="use-credentials"
+            preload="metadata"
+            controls
+            className="w-full"
+            onTimeUpdate={handleTimeUpdate}
+            onSeeked={handleTimeUpdate}
+            onPlay={() => setStarted(true)}
+            onLoadedMetadata={() => {
+              if (!audioRef.current) return;
+              audioRef.current.playbackRate = playbackRate;
+              if (startAtMs !== undefined && audioRef.current.currentTime === 0) {
+                audioRef.current.currentTime = startAtMs / 1000;
+              }
+            }}
+            onError={() => setAudioError(true)}
+          />
+          <div className="mt-2 flex items-center gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              Speed
+              <select
+                value={playbackRate}
+                onChange={(e) => changePlaybackRate(Number(e.target.value))}
+                className="rounded border border-gray-300 px-2 py-1"
+              >
+                {PLAYBACK_RATES.map((rate) => (
+                  <option key={rate} value={rate}>
+                    {rate}x
+                  </option>
+                ))}
+              </select>
+            </label>
+            {timed && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={skipSilence}
+                  onChange={(e) => setSkipSilence(e.target.checked)}
+                />
+                Skip silence
+              </label>
+            )}
+          </div>
+        </div>
+      )}
+
+      <SpeakerTranscript
+        segments={segments}
+        activeIndex={activeIndex >= 0 ? activeIndex : undefined}
+        onSegmentClick={timed && !audioError ? seekToSegment : undefined}
+      />
+    </div>
+  );
+}
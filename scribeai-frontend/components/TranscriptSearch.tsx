@@ -0,0 +1,201 @@
+/**
+ * Transcript search component
+ * Full-text search across the user's session titles, summaries and transcripts, linking each
+ * match to the point in the recording where it was said
+ */
+
+'use client';
+
+import { FormEvent, useState } from 'react';
+import Link from 'next/link';
+import { Session } from '@/lib/types';
+import { searchSessions, SearchResult } from '@/lib/sessions';
+
+const PAGE_SIZE = 10;
+
+const SOURCE_FILTERS: { value: '' | Session['audio_source']; label: string }[] = [
+  { value: '', label: 'All sources' },
+  { value: 'microphone', label: 'Microphone' },
+  { value: 'tab_share', label: 'Tab share' },
+  { value: 'upload', label: 'Upload' },
+  { value: 'import', label: 'Import' },
+];
+
+/**
+ * Start of a local calendar day (yyyy-mm-dd from a date input) as an ISO datetime
+ */
+function startOfDay(date: string, addDays = 0): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays).toISOString();
+}
+
+function formatOffset(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export default function TranscriptSearch() {
+  const [query, setQuery] = useState('');
+  const [source, setSource] = useState<'' | Session['audio_source']>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [results, setResults] = useState<SearchResult[] | null>(null); // null until the first search
+  const [total, setTotal] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runSearch = async (offset: number) => {
+    setSearching(true);
+    setError(null);
+
+    try {
+      const { results: page, pagination } = await searchSessions({
+        q: query.trim(),
+        source: source || undefined,
+        from: fromDate ? startOfDay(fromDate) : undefined,
+        to: toDate ? startOfDay(toDate, 1) : undefined, // The "to" day is included
+        limit: PAGE_SIZE,
+        offset,
+      });
+
+      setResults((previous) => (offset > 0 && previous ? [...previous, ...page] : page));
+      setTotal(pagination.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (query.trim()) runSearch(0);
+  };
+
+  const clearSearch = () => {
+    setQuery('');
+    setResults(null);
+    setTotal(0);
+    setError(null);
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-6 mb-8">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg border border-gray-200 p-4">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder='Search transcripts, e.g. "launch date" -draft'
+            maxLength={200}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+          />
+          <button
+            type="submit"
+            disabled={!query.trim() || searching}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg font-semibold transition-colors"
+          >
+            {searching ? 'Searching...' : 'Search'}
+          </button>
+        </div>
+        <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            From
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-gray-900"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            To
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-gray-900"
+            />
+          </label>
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value as '' | Session['audio_source'])}
+            className="px-2 py-1 border border-gray-300 rounded text-gray-900 bg-white"
+          >
+            {SOURCE_FILTERS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {results && (
+            <button type="button" onClick={clearSearch} className="text-blue-600 hover:text-blue-700 underline">
+              Clear
+            </button>
+          )}
+        </div>
+      </form>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg">{error}</div>
+      )}
+
+      {results && !error && (
+        <div className="mt-4 space-y-3">
+          <p className="text-sm text-gray-600">
+            {total === 0 ? 'No matches' : `${total} matching session${total === 1 ? '' : 's'}`}
+          </p>
+          {results.map((result) => (
+            <div key={result.session.id} className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1">
+                  <Link
+                    href={`/sessions/${result.session.id}`}
+                    className="font-semibold text-lg text-gray-900 hover:text-blue-700"
+                  >
+                    {result.session.title}
+                  </Link>
+                  <div className="flex items-center gap-3 text-sm text-gray-600">
+                    <span>{new Date(result.session.created_at).toLocaleDateString()}</span>
+                    <span>•</span>
+                    <span className="capitalize">{result.session.audio_source.replace('_', ' ')}</span>
+                  </div>
+                </div>
+                {result.mediaStartMs !== null && (
+                  <Link
+                    href={`/sessions/${result.session.id}?t=${result.mediaStartMs}`}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors whitespace-nowrap"
+                  >
+                    Open at {formatOffset(result.mediaStartMs)}
+                  </Link>
+                )}
+              </div>
+              <p className="mt-2 text-sm text-gray-700">
+                {result.snippet.map((part, index) =>
+                  part.match ? (
+                    <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  )
+                )}
+              </p>
+            </div>
+          ))}
+          {results.length < total && (
+            <button
+              type="button"
+              onClick={() => runSearch(results.length)}
+              disabled={searching}
+              className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 rounded-lg transition-colors border border-gray-200"
+            >
+              {searching ? 'Loading...' : 'Show more'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
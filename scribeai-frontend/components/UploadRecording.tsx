@@ -0,0 +1,206 @@
+/**
+ * Upload recording component
+ * Sends a pre-recorded audio/video file for transcription and follows its progress
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { v4 as uuidv4 } from 'uuid';
+import { apiFetch } from '@/lib/api';
+import { initializeSocket, listSummarizers, SocketEvents, SummarizerInfo } from '@/lib/socket';
+
+const ACCEPTED_FILES = '.mp3,.wav,.m4a,.webm,.mp4,audio/*,video/mp4,video/webm';
+
+type UploadStatus = 'idle' | 'uploading' | 'processing' | 'completed' | 'failed';
+
+export default function UploadRecording() {
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState('');
+  const [summarizers, setSummarizers] = useState<SummarizerInfo[]>([]);
+  const [summarizer, setSummarizer] = useState('');
+  const [status, setStatus] = useState<UploadStatus>('idle');
+  const [progress, setProgress] = useState<SocketEvents['upload-progress'] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState('');
+  const sessionIdRef = useRef('');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Load the summarizers the server offers
+  useEffect(() => {
+    listSummarizers()
+      .then(({ summarizers, defaultSummarizer }) => {
+        setSummarizers(summarizers);
+        setSummarizer(defaultSummarizer);
+      })
+      .catch((err) => {
+        console.error('Failed to load summarizers:', err);
+      });
+  }, []);
+
+  // Follow the upload's progress; the server puts this socket in the session room
+  useEffect(() => {
+    const socket = initializeSocket();
+
+    const onUploadProgress = (data: SocketEvents['upload-progress']) => {
+      if (data.sessionId !== sessionIdRef.current) return;
+      setProgress(data);
+    };
+
+    const onSessionStatus = (data: SocketEvents['session-status']) => {
+      if (data.sessionId !== sessionIdRef.current || data.status !== 'failed') return;
+      setStatus('failed');
+      setError('The file could not be transcribed');
+    };
+
+    const onSessionComplete = (data: SocketEvents['session-complete']) => {
+      if (data.sessionId !== sessionIdRef.current) return;
+      setStatus('completed');
+    };
+
+    socket.on('upload-progress', onUploadProgress);
+    socket.on('session-status', onSessionStatus);
+    socket.on('session-complete', onSessionComplete);
+
+    return () => {
+      socket.off('upload-progress', onUploadProgress);
+      socket.off('session-status', onSessionStatus);
+      socket.off('session-complete', onSessionComplete);
+    };
+  }, []);
+
+  const startUpload = async () => {
+    if (!file) return;
+
+    // Make sure this socket is connected, so it is in the session room before processing starts
+    initializeSocket();
+
+    const id = uuidv4();
+    sessionIdRef.current = id;
+    setSessionId(id);
+    setStatus('uploading');
+    setProgress(null);
+    setError(null);
+
+    const form = new FormData();
+    form.append('sessionId', id);
+    if (title.trim()) form.append('title', title.trim());
+    if (summarizer) form.append('summarizer', summarizer);
+    form.append('file', file);
+
+    try {
+      await apiFetch<{ sessionId: string; status: string }>('/uploads', { method: 'POST', body: form });
+      setStatus((current) => (current === 'uploading' ? 'processing' : current));
+    } catch (err) {
+      setStatus('failed');
+      setError(err instanceof Error ? err.message : 'Upload failed');
+    }
+  };
+
+  const reset = () => {
+    sessionIdRef.current = '';
+    setSessionId('');
+    setFile(null);
+    setTitle('');
+    setStatus('idle');
+    setProgress(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const progressLabel = () => {
+    if (status === 'uploading') return 'Uploading...';
+    if (!progress) return 'Preparing...';
+    switch (progress.stage) {
+      case 'splitting':
+        return 'Splitting audio...';
+      case 'transcribing':
+        return `Transcribing chunk ${Math.min(progress.completedChunks + 1, progress.totalChunks)} of ${progress.totalChunks}...`;
+      case 'summarizing':
+        return 'Generating summary...';
+    }
+  };
+
+  const percent =
+    progress && progress.totalChunks > 0 ? Math.round((progress.completedChunks / progress.totalChunks) * 100) : 0;
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-6 mt-6">
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold mb-1 text-gray-900">Upload a Recording</h2>
+        <p className="mb-4 text-sm text-gray-600">mp3, wav, m4a, webm or mp4 from another tool</p>
+
+        {status === 'idle' && (
+          <div className="space-y-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILES}
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-gray-700"
+            />
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={file ? file.name.replace(/\.[^.]+$/, '') : 'Title (optional)'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+            />
+            {summarizers.length > 1 && (
+              <select
+                value={summarizer}
+                onChange={(e) => setSummarizer(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+              >
+                {summarizers.map((option) => (
+                  <option key={option.name} value={option.name}>
+                    {option.name} ({option.version})
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={startUpload}
+              disabled={!file}
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg font-semibold transition-colors"
+            >
+              Upload & Transcribe
+            </button>
+          </div>
+        )}
+
+        {(status === 'uploading' || status === 'processing') && (
+          <div>
+            <div className="mb-2 text-sm text-gray-700">{progressLabel()}</div>
+            <div className="h-2 w-full rounded-full bg-gray-100">
+              <div className="h-2 rounded-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        )}
+
+        {status === 'completed' && (
+          <div className="flex items-center gap-4">
+            <span className="text-green-700">Transcription complete.</span>
+            <Link href={`/sessions/${sessionId}`} className="text-blue-600 hover:text-blue-700 underline">
+              View session
+            </Link>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg">{error}</div>
+        )}
+
+        {(status === 'completed' || status === 'failed') && (
+          <button
+            onClick={reset}
+            className="mt-4 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-semibold transition-colors"
+          >
+            Upload Another
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
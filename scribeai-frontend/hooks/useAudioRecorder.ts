@@ -4,7 +4,16 @@
  */
 
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { getSocket, initializeSocket } from '@/lib/socket';
+import { Socket } from 'socket.io-client';
+import { getSocket, initializeSocket, onSessionRejoined, trackSession } from '@/lib/socket';
+import {
+  PendingChunk,
+  countPendingChunks,
+  deletePendingChunk,
+  getPendingChunks,
+  savePendingChunk,
+} from '@/lib/chunkStore';
+import { DEFAULT_CHUNK_DURATION_MS } from '@/lib/playback';
 
 export type AudioSource = 'microphone' | 'tab_share';
 export type RecordingStatus = 'idle' | 'recording' | 'paused' | 'processing' | 'completed';
@@ -12,27 +21,126 @@ export type RecordingStatus = 'idle' | 'recording' | 'paused' | 'processing' | '
 interface UseAudioRecorderOptions {
   sessionId: string;
   audioSource: AudioSource;
-  userId?: string;
+  summarizer?: string; // Server default when omitted
   chunkDuration?: number; // milliseconds, default 30000 (30s)
 }
 
+// How long to wait for the server to acknowledge a chunk before keeping it for retransmission
+const ACK_TIMEOUT_MS = 15000;
+
+/**
+ * Send one chunk and wait for the server's acknowledgement
+ * @returns true once the server has accepted (or already had) the chunk
+ */
+function sendChunk(socket: Socket, chunk: PendingChunk): Promise<boolean> {
+  if (!socket.connected) {
+    return Promise.resolve(false);
+  }
+
+  return new Promise((resolve) => {
+    socket.timeout(ACK_TIMEOUT_MS).emit(
+      'audio-chunk',
+      chunk,
+      (err: Error | null, response?: { ok: boolean; error?: string }) => {
+        if (err || !response?.ok) {
+          console.warn(`Chunk ${chunk.seq} not acknowledged:`, err?.message || response?.error);
+          resolve(false);
+          return;
+        }
+        resolve(true);
+      }
+    );
+  });
+}
+
 export function useAudioRecorder({
   sessionId,
   audioSource,
-  userId,
-  chunkDuration = 30000,
+  summarizer,
+  chunkDuration = DEFAULT_CHUNK_DURATION_MS,
 }: UseAudioRecorderOptions) {
   const [status, setStatus] = useState<RecordingStatus>('idle');
   const [error, setError] = useState<string | null>(null);
   const [duration, setDuration] = useState(0);
+  const [pendingChunks, setPendingChunks] = useState(0);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Recording clock, in performance.now() milliseconds so wall-clock changes do not skew it
   const startTimeRef = useRef<number>(0);
   const pausedDurationRef = useRef<number>(0);
-  const pausedAtRef = useRef<number>(0);
+  const pausedAtRef = useRef<number>(0); // 0 while not paused
+  const mediaCursorRef = useRef<number>(0); // Media end offset of the last chunk
+  const seqRef = useRef<number>(0);
+  const flushingRef = useRef(false);
+  const flushAgainRef = useRef(false);
+
+  /**
+   * Milliseconds recorded so far, paused time excluded
+   * Chunk media offsets and the duration display both come from this clock
+   */
+  const mediaElapsedMs = useCallback(() => {
+    const now = performance.now();
+    const currentPause = pausedAtRef.current ? now - pausedAtRef.current : 0;
+    return now - startTimeRef.current - pausedDurationRef.current - currentPause;
+  }, []);
+
+  /**
+   * Send buffered chunks in sequence order, stopping at the first one the server does not acknowledge
+   * Acknowledged chunks are removed from IndexedDB; the rest wait for the next flush
+   */
+  const flushPendingChunks = useCallback(async () => {
+    const socket = getSocket();
+    if (!socket) return;
+
+    // A flush is already running: let it pick up the new chunks when it finishes
+    if (flushingRef.current) {
+      flushAgainRef.current = true;
+      return;
+    }
+
+    flushingRef.current = true;
+    try {
+      do {
+        flushAgainRef.current = false;
+
+        for (const chunk of await getPendingChunks(sessionId)) {
+          if (!(await sendChunk(socket, chunk))) {
+            return;
+          }
+          await deletePendingChunk(sessionId, chunk.seq);
+          setPendingChunks(await countPendingChunks(sessionId));
+        }
+      } while (flushAgainRef.current);
+    } catch (err) {
+      console.error('Error flushing buffered chunks:', err);
+    } finally {
+      flushingRef.current = false;
+      setPendingChunks(await countPendingChunks(sessionId).catch(() => 0));
+    }
+  }, [sessionId]);
+
+  /**
+   * Buffer a new chunk durably, then try to deliver everything pending
+   */
+  const enqueueChunk = useCallback(async (chunk: PendingChunk) => {
+    try {
+      await savePendingChunk(chunk);
+    } catch (err) {
+      // IndexedDB unavailable (e.g. private browsing): fall back to a best-effort send
+      console.error('Failed to buffer audio chunk:', err);
+      const socket = getSocket();
+      if (socket) {
+        await sendChunk(socket, chunk);
+      }
+      return;
+    }
+
+    setPendingChunks(await countPendingChunks(sessionId));
+    await flushPendingChunks();
+  }, [sessionId, flushPendingChunks]);
 
   /**
    * Request media stream based on audio source
@@ -81,7 +189,8 @@ export function useAudioRecorder({
         'audio/webm;codecs=opus',
         'audio/webm',
         'video/mp4',
-        'audio/mp4'
+        'audio/mp4',
+        'audio/ogg;codecs=opus'
       ];
 
       for (const type of possibleTypes) {
@@ -105,20 +214,26 @@ export function useAudioRecorder({
 
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
+      seqRef.current = 0;
 
       // Handle data available (chunk ready)
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           chunksRef.current.push(event.data);
 
-          // Convert blob to ArrayBuffer and send via socket
-          event.data.arrayBuffer().then((buffer) => {
-            socket.emit('audio-chunk', {
-              sessionId,
-              chunk: buffer,
-              timestamp: Date.now(),
-            });
-          });
+          // Sequence numbers are assigned in recording order and used by the server to dedupe
+          const seq = seqRef.current++;
+          const timestamp = Date.now();
+
+          // Each chunk covers the media time since the previous one ended
+          const mediaStartMs = mediaCursorRef.current;
+          const mediaEndMs = Math.max(mediaStartMs, Math.round(mediaElapsedMs()));
+          mediaCursorRef.current = mediaEndMs;
+
+          // Convert blob to ArrayBuffer, buffer it and send via socket
+          event.data.arrayBuffer().then((buffer) =>
+            enqueueChunk({ sessionId, seq, chunk: buffer, timestamp, mediaStartMs, mediaEndMs })
+          );
         }
       };
 
@@ -137,31 +252,36 @@ export function useAudioRecorder({
         };
       });
 
-      // Start recording with time slicing
+      // Start recording with time slicing; the media clock starts with it
+      startTimeRef.current = performance.now();
+      pausedDurationRef.current = 0;
+      pausedAtRef.current = 0;
+      mediaCursorRef.current = 0;
       mediaRecorder.start(chunkDuration);
 
       // Notify server
       socket.emit('start-session', {
         sessionId,
-        userId,
         audioSource,
+        summarizer,
+        // The server needs the real container to make every chunk decodable on its own
+        mimeType: mediaRecorder.mimeType || mimeType,
         title: `Session ${new Date().toLocaleString()}`,
       });
+      trackSession(sessionId);
 
       setStatus('recording');
-      startTimeRef.current = Date.now();
 
       // Start duration timer
       intervalRef.current = setInterval(() => {
-        const elapsed = Date.now() - startTimeRef.current - pausedDurationRef.current;
-        setDuration(Math.floor(elapsed / 1000));
+        setDuration(Math.floor(mediaElapsedMs() / 1000));
       }, 1000);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to start recording';
       setError(errorMessage);
       console.error('Error starting recording:', err);
     }
-  }, [sessionId, audioSource, chunkDuration, getMediaStream]);
+  }, [sessionId, audioSource, summarizer, chunkDuration, getMediaStream, enqueueChunk, mediaElapsedMs]);
 
   /**
    * Pause recording
@@ -169,7 +289,7 @@ export function useAudioRecorder({
   const pauseRecording = useCallback(() => {
     if (mediaRecorderRef.current && status === 'recording') {
       mediaRecorderRef.current.pause();
-      pausedAtRef.current = Date.now();
+      pausedAtRef.current = performance.now();
       setStatus('paused');
 
       const socket = getSocket();
@@ -188,7 +308,8 @@ export function useAudioRecorder({
   const resumeRecording = useCallback(() => {
     if (mediaRecorderRef.current && status === 'paused') {
       mediaRecorderRef.current.resume();
-      pausedDurationRef.current += Date.now() - pausedAtRef.current;
+      pausedDurationRef.current += performance.now() - pausedAtRef.current;
+      pausedAtRef.current = 0;
       setStatus('recording');
 
       const socket = getSocket();
@@ -196,22 +317,27 @@ export function useAudioRecorder({
 
       // Restart duration timer
       intervalRef.current = setInterval(() => {
-        const elapsed = Date.now() - startTimeRef.current - pausedDurationRef.current;
-        setDuration(Math.floor(elapsed / 1000));
+        setDuration(Math.floor(mediaElapsedMs() / 1000));
       }, 1000);
     }
-  }, [sessionId, status]);
+  }, [sessionId, status, mediaElapsedMs]);
 
   /**
    * Stop recording
    */
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current) {
-      mediaRecorderRef.current.stop();
-      setStatus('processing');
+      const mediaRecorder = mediaRecorderRef.current;
 
-      const socket = getSocket();
-      socket?.emit('stop-session', { sessionId });
+      // stop() flushes one last dataavailable before onstop fires, so by then every chunk has
+      // its sequence number and the server knows exactly how many chunks to wait for
+      mediaRecorder.onstop = () => {
+        const socket = getSocket();
+        socket?.emit('stop-session', { sessionId, chunkCount: seqRef.current });
+      };
+
+      mediaRecorder.stop();
+      setStatus('processing');
 
       // Clean up
       if (intervalRef.current) {
@@ -228,6 +354,17 @@ export function useAudioRecorder({
     }
   }, [sessionId]);
 
+  /**
+   * Retransmit unacknowledged chunks once the session has been rejoined after a reconnect
+   */
+  useEffect(() => {
+    return onSessionRejoined((rejoinedSessionId) => {
+      if (rejoinedSessionId === sessionId) {
+        flushPendingChunks();
+      }
+    });
+  }, [sessionId, flushPendingChunks]);
+
   /**
    * Cleanup on unmount
    */
@@ -246,6 +383,7 @@ export function useAudioRecorder({
     status,
     error,
     duration,
+    pendingChunks,
     startRecording,
     pauseRecording,
     resumeRecording,
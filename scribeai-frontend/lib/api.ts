@@ -0,0 +1,81 @@
+/**
+ * REST client for the ScribeAI server API
+ * Sends the Better Auth session as a Bearer token and cookie
+ */
+
+import { authClient } from '@/lib/auth-client';
+import { API_URL } from '@/lib/apiUrl';
+
+export { API_URL };
+
+/**
+ * Error response from the API
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Send a request to an `/api/v1` endpoint with the user's session
+ * @throws ApiError for non-2xx responses
+ */
+async function request(path: string, init: RequestInit = {}): Promise<Response> {
+  const { data } = await authClient.getSession();
+  const token = data?.session.token;
+
+  const response = await fetch(`${API_URL}/api/v1${path}`, {
+    ...init,
+    credentials: 'include',
+    headers: {
+      // FormData bodies get their multipart boundary from the browser
+      ...(typeof init.body === 'string' ? { 'Content-Type': 'application/json' } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(
+      body?.error?.message || `Request failed with status ${response.status}`,
+      response.status,
+      body?.error?.code
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Call an `/api/v1` endpoint
+ * @returns Parsed JSON body
+ */
+export async function apiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await request(path, init);
+  return (await response.json().catch(() => null)) as T;
+}
+
+/**
+ * Download a file from an `/api/v1` endpoint and save it in the browser
+ * Uses the server's Content-Disposition file name when there is one
+ */
+export async function apiDownload(path: string, fallbackName: string): Promise<void> {
+  const response = await request(path);
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+
+  const url = URL.createObjectURL(await response.blob());
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,7 @@
+/**
+ * Base URL of the ScribeAI server API
+ * Kept apart from the API client so server code can use it without the browser auth client
+ */
+
+export const API_URL =
+  process.env.NEXT_PUBLIC_API_URL || process.env.NEXT_PUBLIC_WEBSOCKET_URL || 'http://localhost:3001';
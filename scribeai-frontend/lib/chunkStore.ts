@@ -0,0 +1,99 @@
+/**
+ * IndexedDB buffer for audio chunks that the server has not acknowledged yet
+ * Chunks survive socket drops and are retransmitted in sequence order
+ */
+
+const DB_NAME = 'scribeai';
+const DB_VERSION = 1;
+const STORE_NAME = 'pending-chunks';
+
+export interface PendingChunk {
+  sessionId: string;
+  seq: number;
+  chunk: ArrayBuffer;
+  timestamp: number; // Wall clock when the chunk was emitted
+  mediaStartMs: number; // Offset into the recording, paused time excluded
+  mediaEndMs: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create on first use) the chunk database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: ['sessionId', 'seq'],
+        });
+        store.createIndex('sessionId', 'sessionId');
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Run a single request in a transaction and resolve with its result
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Persist a chunk until the server acknowledges it
+ */
+export async function savePendingChunk(chunk: PendingChunk): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(chunk));
+}
+
+/**
+ * Drop an acknowledged chunk
+ */
+export async function deletePendingChunk(sessionId: string, seq: number): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete([sessionId, seq]));
+}
+
+/**
+ * Get a session's unacknowledged chunks, ordered by sequence number
+ */
+export async function getPendingChunks(sessionId: string): Promise<PendingChunk[]> {
+  // Keys are [sessionId, seq], so this range is already in sequence order
+  const range = IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+  return runRequest('readonly', (store) => store.getAll(range) as IDBRequest<PendingChunk[]>);
+}
+
+/**
+ * Count a session's unacknowledged chunks
+ */
+export async function countPendingChunks(sessionId: string): Promise<number> {
+  return runRequest('readonly', (store) => store.index('sessionId').count(sessionId));
+}
+
+/**
+ * Remove every buffered chunk for a session
+ */
+export async function clearPendingChunks(sessionId: string): Promise<void> {
+  const range = IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+  await runRequest('readwrite', (store) => store.delete(range));
+}
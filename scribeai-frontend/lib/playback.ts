@@ -0,0 +1,100 @@
+/**
+ * Transcript playback timing
+ * Places diarized segments on the recording's timeline so the player can follow along
+ */
+
+import type { TranscriptChunk, TranscriptSegmentRow } from '@/lib/types';
+
+// MediaRecorder timeslice used when recording (see useAudioRecorder); chunks stored without
+// media offsets are assumed to be back-to-back slices of this length
+export const DEFAULT_CHUNK_DURATION_MS = 30000;
+
+export type ChunkOffset = Pick<TranscriptChunk, 'chunk_index' | 'media_start_ms'>;
+
+// Gaps without speech shorter than this are played normally when skipping silence
+export const MIN_SILENCE_MS = 2000;
+
+const SKIP_LEAD_IN_MS = 250;
+
+/**
+ * A transcript segment with its position in the recording
+ */
+export interface TimedSegment {
+  speaker?: string;
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Offset segments by their chunk's position in the recording
+ * Segment times are relative to their chunk, which starts at its `media_start_ms`
+ */
+export function toTimedSegments(rows: TranscriptSegmentRow[], chunks: ChunkOffset[]): TimedSegment[] {
+  const chunkStarts = new Map(
+    chunks
+      .filter((chunk) => chunk.media_start_ms !== null)
+      .map((chunk) => [chunk.chunk_index, chunk.media_start_ms as number])
+  );
+  const chunkStart = (chunkIndex: number) => chunkStarts.get(chunkIndex) ?? chunkIndex * DEFAULT_CHUNK_DURATION_MS;
+
+  return rows.map((row) => ({
+    speaker: row.speaker,
+    text: row.text,
+    startMs: chunkStart(row.chunk_index) + row.start_ms,
+    endMs: chunkStart(row.chunk_index) + row.end_ms,
+  }));
+}
+
+/**
+ * Index of the segment being spoken at a playback position
+ * Between segments the previous one stays active, so the highlight does not flicker
+ * @returns -1 before the first segment
+ */
+export function activeSegmentIndex(segments: TimedSegment[], timeMs: number): number {
+  let low = 0;
+  let high = segments.length - 1;
+  let active = -1;
+
+  // Last segment that starts at or before the playback position
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (segments[mid].startMs <= timeMs) {
+      active = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return active;
+}
+
+/**
+ * Where playback should jump to when skipping silence
+ * @returns Start of the next segment if the position is in a long enough gap, otherwise null
+ */
+export function skipSilenceTarget(
+  segments: TimedSegment[],
+  timeMs: number,
+  minSilenceMs = MIN_SILENCE_MS
+): number | null {
+  const index = activeSegmentIndex(segments, timeMs);
+  const gapStart = index >= 0 ? segments[index].endMs : 0;
+  const next = segments[index + 1];
+
+  if (!next || timeMs < gapStart || next.startMs - gapStart < minSilenceMs) {
+    return null;
+  }
+
+  // Leave a little lead-in so the first word is not clipped
+  const target = next.startMs - SKIP_LEAD_IN_MS;
+  return target - timeMs > SKIP_LEAD_IN_MS ? target : null;
+}
+
+/**
+ * Whether the segments carry real timing (providers without timestamps store zero-length segments)
+ */
+export function hasSegmentTiming(segments: TimedSegment[]): boolean {
+  return segments.some((segment) => segment.endMs > segment.startMs);
+}
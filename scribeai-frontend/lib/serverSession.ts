@@ -0,0 +1,43 @@
+/**
+ * Server-side session checks for pages
+ * Verifies the Better Auth session and loads API data as the signed-in user
+ */
+
+import { headers } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { API_URL } from '@/lib/apiUrl';
+import type { Session } from '@/lib/types';
+
+/**
+ * The signed-in user's session, or a redirect to /login
+ */
+export async function requireSession() {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    redirect('/login');
+  }
+  return session;
+}
+
+/**
+ * Load a recording session through the API, which checks that the user owns it
+ * @returns null when it does not exist or belongs to someone else
+ */
+export async function loadOwnedSession(sessionId: string, token: string): Promise<Session | null> {
+  const response = await fetch(`${API_URL}/api/v1/sessions/${encodeURIComponent(sessionId)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+    cache: 'no-store',
+  });
+
+  if (response.status === 404 || response.status === 403) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to load session (status ${response.status})`);
+  }
+
+  const { session } = (await response.json()) as { session: Session };
+  return session;
+}
@@ -0,0 +1,98 @@
+/**
+ * Session API client
+ * Typed calls to the server's session, transcript, chunk and search endpoints
+ */
+
+import { apiFetch } from '@/lib/api';
+import type { Session, Transcript, TranscriptChunk, TranscriptSegmentRow } from '@/lib/types';
+
+export interface Pagination {
+  limit: number;
+  offset: number;
+  total: number;
+}
+
+export interface SessionFilters {
+  status?: Session['status'];
+  source?: Session['audio_source'];
+  q?: string; // Title contains
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchFilters {
+  q: string; // Web search syntax: "quoted phrase", OR, -excluded
+  source?: Session['audio_source'];
+  from?: string; // ISO datetime, created at or after
+  to?: string; // ISO datetime, created before
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A session matching a search, with a highlighted snippet and where in the recording it matched
+ */
+export interface SearchResult {
+  session: Pick<Session, 'id' | 'title' | 'status' | 'audio_source' | 'duration' | 'created_at'>;
+  rank: number;
+  chunkIndex: number | null; // First matching chunk; null when only the title or summary matched
+  mediaStartMs: number | null;
+  snippet: { text: string; match: boolean }[];
+}
+
+export type ChunkWithSegments = TranscriptChunk & { segments: TranscriptSegmentRow[] };
+
+// Largest page the chunks endpoint serves
+const CHUNK_PAGE_SIZE = 500;
+
+/**
+ * List the user's sessions, newest first
+ */
+export function listSessions(filters: SessionFilters = {}): Promise<{ sessions: Session[]; pagination: Pagination }> {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+
+  return apiFetch(`/sessions?${params}`);
+}
+
+/**
+ * Full-text search across the user's session titles, summaries and transcripts, best match first
+ */
+export function searchSessions(filters: SearchFilters): Promise<{ results: SearchResult[]; pagination: Pagination }> {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+
+  return apiFetch(`/search?${params}`);
+}
+
+export async function getSession(sessionId: string): Promise<Session> {
+  const { session } = await apiFetch<{ session: Session }>(`/sessions/${sessionId}`);
+  return session;
+}
+
+export async function getTranscript(sessionId: string): Promise<Transcript> {
+  const { transcript } = await apiFetch<{ transcript: Transcript }>(`/sessions/${sessionId}/transcript`);
+  return transcript;
+}
+
+/**
+ * Every chunk of a session in recording order, with its segments, fetched page by page
+ */
+export async function getAllChunks(sessionId: string): Promise<ChunkWithSegments[]> {
+  const chunks: ChunkWithSegments[] = [];
+
+  for (;;) {
+    const page = await apiFetch<{ chunks: ChunkWithSegments[]; pagination: Pagination }>(
+      `/sessions/${sessionId}/chunks?limit=${CHUNK_PAGE_SIZE}&offset=${chunks.length}`
+    );
+    chunks.push(...page.chunks);
+
+    if (page.chunks.length === 0 || chunks.length >= page.pagination.total) {
+      return chunks;
+    }
+  }
+}
@@ -3,11 +3,60 @@
  */
 
 import { io, Socket } from 'socket.io-client';
+import { authClient } from '@/lib/auth-client';
+import type { SummaryData } from '@/lib/summary';
 
 const SOCKET_URL = process.env.NEXT_PUBLIC_WEBSOCKET_URL || 'http://localhost:3001';
 
+// Keep reconnecting for as long as the server holds a disconnected session (its SESSION_GRACE_PERIOD_MS)
+const RECONNECT_WINDOW_MS = Number(process.env.NEXT_PUBLIC_SESSION_GRACE_PERIOD_MS) || 10 * 60 * 1000;
+
 let socket: Socket | null = null;
 
+// When the current connection was lost, while reconnecting
+let disconnectedAt: number | null = null;
+
+// Live session this client is following, rejoined automatically after a reconnect
+let trackedSession: {
+  sessionId: string;
+  seenChunks: Set<number>;
+} | null = null;
+
+// Notified after the tracked session has been rejoined on a new connection
+const rejoinListeners = new Set<(sessionId: string) => void>();
+
+/**
+ * Highest chunk index such that every chunk up to it has been seen
+ */
+function lastContiguousChunk(seenChunks: Set<number>): number {
+  let index = -1;
+  while (seenChunks.has(index + 1)) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Ask the server to re-add this socket to the tracked session's room
+ * and replay anything missed while disconnected
+ */
+function rejoinTrackedSession(activeSocket: Socket) {
+  if (!trackedSession) return;
+
+  const { sessionId, seenChunks } = trackedSession;
+  activeSocket.emit(
+    'rejoin-session',
+    { sessionId, lastChunkIndex: lastContiguousChunk(seenChunks) },
+    (response: { ok: boolean; status?: string }) => {
+      if (!response.ok) {
+        console.error('Failed to rejoin session:', sessionId);
+        return;
+      }
+      rejoinListeners.forEach((listener) => listener(sessionId));
+    }
+  );
+}
+
 /**
  * Initialize WebSocket connection
  */
@@ -16,18 +65,63 @@ export function initializeSocket(): Socket {
     socket = io(SOCKET_URL, {
       transports: ['websocket', 'polling'],
       reconnection: true,
-      reconnectionAttempts: 5,
+      reconnectionAttempts: Infinity,
       reconnectionDelay: 1000,
+      reconnectionDelayMax: 10000,
+      withCredentials: true,
+      // Re-read the Better Auth session token on every (re)connect attempt
+      auth: (cb) => {
+        authClient
+          .getSession()
+          .then(({ data }) => cb({ token: data?.session.token }))
+          .catch(() => cb({}));
+      },
     });
 
     socket.on('connect', () => {
+      disconnectedAt = null;
       console.log('✅ Connected to WebSocket server');
     });
 
     socket.on('disconnect', () => {
+      disconnectedAt ??= Date.now();
       console.log('❌ Disconnected from WebSocket server');
     });
 
+    // Past the grace period the server has finalized the session, so stop retrying
+    socket.io.on('reconnect_attempt', () => {
+      if (disconnectedAt !== null && Date.now() - disconnectedAt > RECONNECT_WINDOW_MS) {
+        console.error('❌ Could not reconnect to WebSocket server, giving up');
+        disconnectSocket();
+      }
+    });
+
+    // Reconnects get a new socket id that is not in the session room yet
+    socket.io.on('reconnect', () => {
+      if (socket) {
+        rejoinTrackedSession(socket);
+      }
+    });
+
+    socket.on('session-status', (data: SocketEvents['session-status']) => {
+      if (
+        trackedSession?.sessionId === data.sessionId &&
+        (data.status === 'completed' || data.status === 'failed')
+      ) {
+        untrackSession();
+      }
+    });
+
+    socket.on('session-complete', (data: SocketEvents['session-complete']) => {
+      if (trackedSession?.sessionId === data.sessionId) {
+        untrackSession();
+      }
+    });
+
+    socket.on('connect_error', (error) => {
+      console.error('WebSocket connection rejected:', error.message);
+    });
+
     socket.on('error', (error) => {
       console.error('WebSocket error:', error);
     });
@@ -51,6 +145,89 @@ export function disconnectSocket(): void {
     socket.disconnect();
     socket = null;
   }
+  disconnectedAt = null;
+}
+
+/**
+ * Error codes sent with the `error` event
+ */
+export type SocketErrorCode = 'not_found' | 'forbidden' | 'conflict' | 'invalid_request' | 'internal';
+
+/**
+ * Summarization engine that produced (or will produce) a session summary
+ */
+export interface SummarizerInfo {
+  name: string;
+  version: string;
+}
+
+/**
+ * Ask the server which summarizers sessions can choose from
+ */
+export function listSummarizers(): Promise<{ summarizers: SummarizerInfo[]; defaultSummarizer: string }> {
+  const socket = initializeSocket();
+  return new Promise((resolve, reject) => {
+    socket.timeout(10000).emit(
+      'list-summarizers',
+      (err: Error | null, response: { summarizers: SummarizerInfo[]; defaultSummarizer: string }) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(response);
+      }
+    );
+  });
+}
+
+/**
+ * Follow a live session so it is rejoined after reconnects
+ */
+export function trackSession(sessionId: string): void {
+  trackedSession = { sessionId, seenChunks: new Set() };
+}
+
+/**
+ * Stop following the current live session
+ */
+export function untrackSession(): void {
+  trackedSession = null;
+}
+
+/**
+ * Subscribe to successful rejoins of the tracked session
+ * @returns Unsubscribe function
+ */
+export function onSessionRejoined(listener: (sessionId: string) => void): () => void {
+  rejoinListeners.add(listener);
+  return () => {
+    rejoinListeners.delete(listener);
+  };
+}
+
+/**
+ * Record that a chunk's transcription was received
+ * @returns false if the chunk was already seen (e.g. replayed after a rejoin)
+ */
+export function markChunkSeen(sessionId: string, chunkIndex: number): boolean {
+  if (trackedSession?.sessionId !== sessionId) {
+    return true;
+  }
+  if (trackedSession.seenChunks.has(chunkIndex)) {
+    return false;
+  }
+  trackedSession.seenChunks.add(chunkIndex);
+  return true;
+}
+
+/**
+ * A stretch of speech by one speaker within a chunk
+ */
+export interface TranscriptSegment {
+  speaker?: string;
+  text: string;
+  startMs: number; // Offset from the start of the chunk
+  endMs: number;
 }
 
 /**
@@ -58,37 +235,59 @@ export function disconnectSocket(): void {
  */
 export interface SocketEvents {
   'session-status': {
-    status: 'recording' | 'paused' | 'processing' | 'completed';
+    status: 'recording' | 'paused' | 'processing' | 'completed' | 'failed';
     sessionId: string;
     timestamp: number;
   };
   'chunk-processing': {
     chunkIndex: number;
     timestamp: number;
+    mediaStartMs: number; // Chunk's offsets into the recording, paused time excluded
+    mediaEndMs: number;
   };
   'transcription-update': {
+    sessionId: string;
     chunkIndex: number;
     text: string;
+    segments?: TranscriptSegment[]; // Speaker-attributed parts of `text`
     timestamp: number;
+    mediaStartMs: number;
+    mediaEndMs: number;
     confidence?: number;
   };
-  'transcription-error': {
+  'chunk-retrying': {
+    sessionId: string;
+    chunkIndex: number;
+    attempt: number;
+    retryInMs: number;
+    error: string;
+  };
+  'chunk-failed': {
+    sessionId: string;
     chunkIndex: number;
+    attempts: number;
     error: string;
   };
+  'upload-progress': {
+    sessionId: string;
+    stage: 'splitting' | 'transcribing' | 'summarizing';
+    completedChunks: number;
+    totalChunks: number;
+    timestamp: number;
+  };
   'session-complete': {
     sessionId: string;
     duration: number;
     transcript: string;
-    summary: {
-      summary: string;
-      keyPoints: string[];
-      actionItems: string[];
-      decisions: string[];
-    };
+    summary: SummaryData;
+    summarizer: SummarizerInfo;
+    speakers: string[];
+    missingChunks: number[]; // Chunk indices left out of the transcript
     timestamp: number;
   };
   error: {
+    code?: SocketErrorCode;
     message: string;
+    sessionId?: string;
   };
 }
@@ -0,0 +1,51 @@
+/**
+ * Speaker display names
+ * Applies a session's label-to-name mapping wherever the transcript or summary is shown
+ */
+
+import type { SummaryData } from '@/lib/summary';
+
+/**
+ * Display names for diarized labels, e.g. { "Speaker 2": "Priya" }
+ */
+export type SpeakerNames = Record<string, string>;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace speaker labels (bare or bracketed, e.g. "[Speaker 2]") with display names
+ */
+export function applySpeakerNames(text: string, names: SpeakerNames): string {
+  const labels = Object.keys(names)
+    .filter((label) => names[label]?.trim())
+    .sort((a, b) => b.length - a.length); // Longest first so "Speaker 12" wins over "Speaker 1"
+
+  if (labels.length === 0) {
+    return text;
+  }
+
+  const pattern = new RegExp(`\\[?\\b(${labels.map(escapeRegExp).join('|')})\\b\\]?`, 'g');
+  return text.replace(pattern, (_match, label: string) => names[label].trim());
+}
+
+/**
+ * Name for a single speaker label
+ */
+export function speakerName(label: string | undefined, names: SpeakerNames): string | undefined {
+  return label ? names[label]?.trim() || label : undefined;
+}
+
+/**
+ * Apply speaker names to every part of a summary
+ */
+export function applySpeakerNamesToSummary(summary: SummaryData, names: SpeakerNames): SummaryData {
+  const apply = (text: string) => applySpeakerNames(text, names);
+  return {
+    summary: apply(summary.summary),
+    keyPoints: summary.keyPoints.map(apply),
+    actionItems: summary.actionItems.map(apply),
+    decisions: summary.decisions.map(apply),
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Session summary parsing
+ * Reads `transcripts.summary` across schema versions, including rows written before versioning
+ */
+
+import { z } from 'zod';
+
+/**
+ * Current `schemaVersion` written by the server
+ */
+export const SUMMARY_SCHEMA_VERSION = 2;
+
+const summarySchema = z.object({
+  summary: z.string(),
+  keyPoints: z.array(z.string()),
+  actionItems: z.array(z.string()),
+  decisions: z.array(z.string()),
+});
+
+export type SummaryData = z.infer<typeof summarySchema>;
+
+export interface StoredSummary extends SummaryData {
+  schemaVersion: number;
+}
+
+// Unversioned rows: any field may be missing, and `summary` may hold raw model text
+const legacySummarySchema = z.object({
+  summary: z.string().catch(''),
+  keyPoints: z.array(z.string()).catch([]),
+  actionItems: z.array(z.string()).catch([]),
+  decisions: z.array(z.string()).catch([]),
+});
+
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Recover a summary that was saved as raw model text (the old regex fallback)
+ */
+function salvageRawText(text: string): SummaryData {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  const embedded = jsonMatch ? legacySummarySchema.safeParse(tryParseJson(jsonMatch[0])) : null;
+
+  if (embedded?.success && embedded.data.summary) {
+    return embedded.data;
+  }
+
+  return { summary: text, keyPoints: [], actionItems: [], decisions: [] };
+}
+
+/**
+ * Parse a stored summary of any schema version
+ * @returns null when there is no usable summary
+ */
+export function parseStoredSummary(raw: unknown): SummaryData | null {
+  if (raw === null || raw === undefined || raw === '') {
+    return null;
+  }
+
+  // Unversioned rows were stored as JSON text
+  const value = typeof raw === 'string' ? tryParseJson(raw) ?? raw : raw;
+
+  if (typeof value === 'string') {
+    return salvageRawText(value);
+  }
+
+  if (value && typeof value === 'object' && 'schemaVersion' in value) {
+    const result = summarySchema.safeParse(value);
+    if (result.success) {
+      return result.data;
+    }
+    console.warn('Summary did not match its schema, reading it leniently:', result.error);
+  }
+
+  const legacy = legacySummarySchema.safeParse(value);
+  if (!legacy.success) {
+    return null;
+  }
+
+  const { summary, keyPoints, actionItems, decisions } = legacy.data;
+  if (keyPoints.length || actionItems.length || decisions.length) {
+    return legacy.data;
+  }
+
+  return summary ? salvageRawText(summary) : null;
+}
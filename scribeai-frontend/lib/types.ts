@@ -0,0 +1,59 @@
+/**
+ * Database row types
+ * Shapes of the sessions, transcripts and chunks returned by the server API
+ */
+
+import type { StoredSummary } from './summary';
+import type { SpeakerNames } from './speakers';
+
+export interface Session {
+  id: string;
+  user_id?: string;
+  title: string;
+  duration: number;
+  status: 'recording' | 'paused' | 'processing' | 'completed' | 'failed';
+  audio_source: 'microphone' | 'tab_share' | 'upload' | 'import'; // import: transcript from another tool, no audio
+  audio_path?: string; // Storage key of the original audio
+  audio_mime?: string;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
+export interface Transcript {
+  id: string;
+  session_id: string;
+  full_text: string;
+  summary?: StoredSummary | string; // Read with parseStoredSummary; older rows hold JSON text
+  summarizer?: string;
+  summarizer_version?: string;
+  speakers?: string[];
+  speaker_names?: SpeakerNames; // Display names for diarized labels
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TranscriptChunk {
+  id: string;
+  session_id: string;
+  chunk_index: number;
+  text: string;
+  timestamp: number; // Client wall clock when the chunk was emitted
+  media_start_ms: number | null; // Offset into the recording, paused time excluded; null for older rows
+  media_end_ms: number | null;
+  confidence?: number;
+  created_at: string;
+}
+
+export interface TranscriptSegmentRow {
+  id: string;
+  chunk_id: string;
+  session_id: string;
+  chunk_index: number;
+  segment_index: number;
+  speaker?: string;
+  text: string;
+  start_ms: number; // Offset within the chunk
+  end_ms: number;
+  created_at: string;
+}
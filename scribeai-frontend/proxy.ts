@@ -0,0 +1,21 @@
+/**
+ * Route guard
+ * Sends requests without a Better Auth session cookie to /login before any page renders.
+ * This only checks that the cookie is present; pages verify the session with `auth` and the
+ * API checks session ownership
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionCookie } from 'better-auth/cookies';
+
+export function proxy(request: NextRequest) {
+  if (!getSessionCookie(request)) {
+    return NextResponse.redirect(new URL('/login', request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/', '/sessions/:path*'],
+};
@@ -0,0 +1,152 @@
+-- Full-text search over session titles, transcripts, summaries and chunks
+-- Prisma cannot describe triggers, functions or expression indexes, so apply this after `prisma db push`:
+--   npm run db:search
+-- Safe to run repeatedly.
+
+-- One document per session: title (weight A), every string in the stored summary (B) and the
+-- transcript text (C). Summaries are JSON objects, or JSON strings in rows written before
+-- schemaVersion existed; jsonb_to_tsvector handles both.
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION transcripts_search_vector_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce((SELECT title FROM sessions WHERE id = NEW.session_id), '')), 'A')
+    || setweight(jsonb_to_tsvector('english', coalesce(NEW.summary, '{}'::jsonb), '["string"]'), 'B')
+    || setweight(to_tsvector('english', coalesce(NEW.full_text, '')), 'C');
+  RETURN NEW;
+END
+$$;
+
+CREATE OR REPLACE TRIGGER transcripts_search_vector
+  BEFORE INSERT OR UPDATE OF full_text, summary, session_id ON transcripts
+  FOR EACH ROW EXECUTE FUNCTION transcripts_search_vector_update();
+
+-- Renaming a session re-indexes its transcript
+CREATE OR REPLACE FUNCTION sessions_title_search_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE transcripts SET session_id = session_id WHERE session_id = NEW.id;
+  RETURN NULL;
+END
+$$;
+
+CREATE OR REPLACE TRIGGER sessions_title_search
+  AFTER UPDATE OF title ON sessions
+  FOR EACH ROW WHEN (OLD.title IS DISTINCT FROM NEW.title)
+  EXECUTE FUNCTION sessions_title_search_update();
+
+-- Index transcripts written before this script was applied
+UPDATE transcripts SET session_id = session_id WHERE search_vector IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transcripts_search_vector
+  ON transcripts USING GIN (search_vector);
+
+-- Sessions without a transcript yet (recording, processing, failed) are matched by title
+CREATE INDEX IF NOT EXISTS idx_sessions_title_search
+  ON sessions USING GIN (to_tsvector('english', title));
+
+-- Locates the matching chunk for links into the recording
+CREATE INDEX IF NOT EXISTS idx_transcript_chunks_search
+  ON transcript_chunks USING GIN (to_tsvector('english', text));
+
+-- Search one user's sessions. `query` uses web search syntax: "quoted phrases", OR, -excluded.
+-- Returns one row per session, best match first, with the first chunk whose text matches (if any)
+-- and a headline snippet whose matches are wrapped in ⟦ ⟧.
+CREATE OR REPLACE FUNCTION search_sessions(
+  search_user_id text,
+  query text,
+  created_from timestamptz DEFAULT NULL,
+  created_to timestamptz DEFAULT NULL,
+  source text DEFAULT NULL,
+  result_limit int DEFAULT 20,
+  result_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  session_id uuid,
+  title text,
+  status text,
+  audio_source text,
+  duration int,
+  created_at timestamptz,
+  rank real,
+  chunk_index int,
+  media_start_ms int,
+  snippet text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', query) AS tsq
+  ),
+  ranked AS (
+    SELECT
+      s.id,
+      s.title,
+      s.status,
+      s.audio_source,
+      s.duration,
+      s.created_at,
+      t.full_text,
+      t.summary,
+      ts_rank(coalesce(t.search_vector, setweight(to_tsvector('english', s.title), 'A')), q.tsq) AS rank,
+      count(*) OVER () AS total_count
+    FROM sessions s
+    CROSS JOIN q
+    LEFT JOIN transcripts t ON t.session_id = s.id
+    WHERE s.user_id = search_user_id
+      AND (created_from IS NULL OR s.created_at >= created_from)
+      AND (created_to IS NULL OR s.created_at < created_to)
+      AND (source IS NULL OR s.audio_source = source)
+      AND (
+        t.search_vector @@ q.tsq
+        OR (t.id IS NULL AND to_tsvector('english', s.title) @@ q.tsq)
+      )
+    ORDER BY rank DESC, s.created_at DESC
+    LIMIT result_limit
+    OFFSET result_offset
+  )
+  -- Chunks and snippets only for the page being returned
+  SELECT
+    r.id,
+    r.title,
+    r.status,
+    r.audio_source,
+    r.duration,
+    r.created_at,
+    r.rank,
+    c.chunk_index,
+    c.media_start_ms,
+    ts_headline(
+      'english',
+      coalesce(c.text, r.summary ->> 'summary', r.full_text, r.title),
+      q.tsq,
+      'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    r.total_count
+  FROM ranked r
+  CROSS JOIN q
+  LEFT JOIN LATERAL (
+    SELECT tc.chunk_index, tc.media_start_ms, tc.text
+    FROM transcript_chunks tc
+    WHERE tc.session_id = r.id
+      AND to_tsvector('english', tc.text) @@ q.tsq
+    ORDER BY tc.chunk_index
+    LIMIT 1
+  ) c ON true
+  ORDER BY r.rank DESC, r.created_at DESC
+$$;
+
+-- Functions are executable by PUBLIC by default, which would expose search_sessions (and any user's
+-- transcripts) through the public /rpc endpoint; only the server's role may call it
+REVOKE EXECUTE ON FUNCTION search_sessions(text, text, timestamptz, timestamptz, text, int, int)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_sessions(text, text, timestamptz, timestamptz, text, int, int)
+  TO service_role;
@@ -0,0 +1,18 @@
+-- Lock the tables away from Supabase's public API roles
+-- The browser never queries Supabase: the server reads and writes with the service_role key (which bypasses
+-- RLS) and Better Auth connects with DATABASE_URL. Apply after `prisma db push`:
+--   npm run db:security
+-- Safe to run repeatedly.
+
+-- RLS with no policies denies every row to anon and authenticated, even if a grant comes back later
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transcripts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transcript_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transcript_segments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "user" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "session" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE account ENABLE ROW LEVEL SECURITY;
+ALTER TABLE verification ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON sessions, transcripts, transcript_chunks, transcript_segments FROM anon, authenticated;
+REVOKE ALL ON "user", "session", account, verification FROM anon, authenticated;
@@ -0,0 +1,38 @@
+/**
+ * HTTP authentication
+ * Rejects API requests without a valid Better Auth session and attaches the verified user
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { authenticate, AuthUser } from '../lib/auth';
+import { sendError } from './errors';
+
+/**
+ * Middleware that requires a Better Auth session (Bearer token or session cookie)
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await authenticate({
+      authorization: req.headers.authorization,
+      cookie: req.headers.cookie,
+    });
+
+    if (!user) {
+      sendError(res, 401, 'unauthorized', 'Authentication required');
+      return;
+    }
+
+    res.locals.user = user;
+    next();
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+    sendError(res, 500, 'internal', 'Authentication failed');
+  }
+}
+
+/**
+ * Get the verified user attached by `requireAuth`
+ */
+export function getRequestUser(res: Response): AuthUser {
+  return res.locals.user as AuthUser;
+}
@@ -0,0 +1,21 @@
+/**
+ * API error responses
+ * Every error is `{ error: { code, message } }` with a matching HTTP status
+ */
+
+import { Response } from 'express';
+
+export type ApiErrorCode =
+  | 'unauthorized'
+  | 'not_found'
+  | 'forbidden'
+  | 'conflict'
+  | 'invalid_request'
+  | 'internal';
+
+/**
+ * Send a typed error response
+ */
+export function sendError(res: Response, status: number, code: ApiErrorCode, message: string) {
+  res.status(status).json({ error: { code, message } });
+}
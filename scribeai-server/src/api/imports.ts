@@ -0,0 +1,196 @@
+/**
+ * Transcript import endpoint
+ * Turns a .txt/.vtt/.srt transcript from another tool into a summarized session
+ */
+
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response, Router } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { supabase } from '../lib/supabase';
+import { CHUNK_DURATION_MS, collectSpeakers, formatSegments } from '../lib/transcript';
+import { defaultSummarizerName, isSummarizerAvailable, summarizeTranscript, toStoredSummary } from '../lib/summarization';
+import {
+  chunkImportedSegments,
+  hasTimestamps,
+  parseTranscriptFile,
+  TranscriptImportError,
+} from '../lib/transcriptImport';
+import { TranscriptSegment } from '../lib/transcription';
+import { saveSegments } from '../sockets/transcription';
+import { getRequestUser } from './auth';
+import { sendError } from './errors';
+
+const MAX_TRANSCRIPT_BYTES = 5 * 1024 * 1024;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_TRANSCRIPT_BYTES, files: 1 },
+});
+
+/**
+ * Run multer and turn its errors into API errors
+ */
+function receiveFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      sendError(res, status, 'invalid_request', error.message);
+    } else if (error) {
+      next(error);
+    } else {
+      next();
+    }
+  });
+}
+
+const importSchema = z.object({
+  title: z.string().trim().max(200).optional(),
+  summarizer: z.string().optional(),
+});
+
+/**
+ * Latest end time of a list of segments
+ * Reduced rather than spread into Math.max, which overflows the stack on files with many cues
+ */
+function latestEndMs(segments: { endMs: number }[]): number {
+  return segments.reduce((latest, segment) => Math.max(latest, segment.endMs), 0);
+}
+
+/**
+ * Store the imported chunks and their segments
+ * Timed chunks start at their slice of the timeline and run to their last cue; untimed ones have no media offsets
+ */
+async function saveImportedChunks(
+  sessionId: string,
+  chunks: Map<number, TranscriptSegment[]>,
+  timed: boolean
+): Promise<void> {
+  for (const [chunkIndex, segments] of chunks) {
+    const mediaStartMs = chunkIndex * CHUNK_DURATION_MS;
+    const { data: chunkRow, error } = await supabase
+      .from('transcript_chunks')
+      .insert({
+        session_id: sessionId,
+        chunk_index: chunkIndex,
+        text: formatSegments(segments),
+        timestamp: Date.now(),
+        media_start_ms: timed ? mediaStartMs : null,
+        media_end_ms: timed ? mediaStartMs + latestEndMs(segments) : null,
+        created_at: new Date().toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    await saveSegments(chunkRow.id, sessionId, chunkIndex, segments);
+  }
+}
+
+export const importsRouter = Router();
+
+/**
+ * Import a transcript (multipart: `file`, optional `title` and `summarizer`)
+ * Responds 201 with the new session once the summary has been generated
+ */
+importsRouter.post('/', receiveFile, async (req: Request, res: Response) => {
+  let sessionId: string | undefined;
+
+  try {
+    const file = req.file;
+    if (!file) {
+      sendError(res, 400, 'invalid_request', 'Attach a transcript file (.txt, .vtt or .srt)');
+      return;
+    }
+
+    const parsed = importSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      sendError(res, 400, 'invalid_request', z.prettifyError(parsed.error));
+      return;
+    }
+
+    if (parsed.data.summarizer && !isSummarizerAvailable(parsed.data.summarizer)) {
+      sendError(res, 400, 'invalid_request', `Summarizer "${parsed.data.summarizer}" is not available`);
+      return;
+    }
+
+    const segments = parseTranscriptFile(file.originalname, file.buffer.toString('utf8'));
+    const chunks = new Map([...chunkImportedSegments(segments)].sort(([a], [b]) => a - b));
+    const user = getRequestUser(res);
+    sessionId = randomUUID();
+
+    const { error: sessionError } = await supabase.from('sessions').insert({
+      id: sessionId,
+      user_id: user.id,
+      title: parsed.data.title || file.originalname.replace(/\.[^.]+$/, ''),
+      status: 'processing',
+      audio_source: 'import',
+      duration: Math.ceil(latestEndMs(segments) / 1000),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+
+    if (sessionError) {
+      throw sessionError;
+    }
+
+    await saveImportedChunks(sessionId, chunks, hasTimestamps(segments));
+
+    const fullTranscript = [...chunks.values()].map(formatSegments).join('\n\n');
+    const speakers = collectSpeakers(chunks);
+
+    const { summarizer, summaryData } = await summarizeTranscript(
+      sessionId,
+      fullTranscript,
+      parsed.data.summarizer || defaultSummarizerName()
+    );
+
+    const { error: transcriptError } = await supabase.from('transcripts').insert({
+      session_id: sessionId,
+      full_text: fullTranscript,
+      summary: toStoredSummary(summaryData),
+      summarizer: summarizer.name,
+      summarizer_version: summarizer.version,
+      speakers,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+
+    if (transcriptError) {
+      throw transcriptError;
+    }
+
+    await supabase.from('sessions').update({
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }).eq('id', sessionId);
+
+    console.log(`📥 Transcript imported: ${sessionId} (${segments.length} segments, ${speakers.length} speakers)`);
+    res.status(201).json({
+      sessionId,
+      speakers,
+      summary: summaryData,
+      summarizer: { name: summarizer.name, version: summarizer.version },
+    });
+  } catch (error) {
+    if (error instanceof TranscriptImportError) {
+      sendError(res, 400, 'invalid_request', error.message);
+      return;
+    }
+
+    console.error('Error importing transcript:', error);
+
+    if (sessionId) {
+      await supabase.from('sessions').update({
+        status: 'failed',
+        updated_at: new Date().toISOString(),
+      }).eq('id', sessionId);
+    }
+
+    sendError(res, 500, 'internal', 'Failed to import transcript');
+  }
+});
@@ -0,0 +1,24 @@
+/**
+ * REST API
+ * Versioned HTTP endpoints for finished sessions, search, uploads and imports; live recording stays on Socket.io
+ */
+
+import { Router } from 'express';
+import { Server } from 'socket.io';
+import { requireAuth } from './auth';
+import { importsRouter } from './imports';
+import { searchRouter } from './search';
+import { sessionsRouter } from './sessions';
+import { createUploadsRouter } from './uploads';
+
+export function createApiRouter(io: Server): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+  router.use('/sessions', sessionsRouter);
+  router.use('/uploads', createUploadsRouter(io));
+  router.use('/imports', importsRouter);
+  router.use('/search', searchRouter);
+
+  return router;
+}
@@ -0,0 +1,29 @@
+/**
+ * List pagination
+ * `?limit=&offset=` in, `{ pagination: { limit, offset, total } }` out
+ */
+
+import { z } from 'zod';
+
+export interface Pagination {
+  limit: number;
+  offset: number;
+  total: number;
+}
+
+/**
+ * Query schema for `limit` and `offset`
+ */
+export function paginationSchema(defaultLimit: number, maxLimit: number) {
+  return z.object({
+    limit: z.coerce.number().int().min(1).max(maxLimit).default(defaultLimit),
+    offset: z.coerce.number().int().min(0).default(0),
+  });
+}
+
+/**
+ * Inclusive row range for a supabase `.range()` call
+ */
+export function pageRange({ limit, offset }: { limit: number; offset: number }): [number, number] {
+  return [offset, offset + limit - 1];
+}
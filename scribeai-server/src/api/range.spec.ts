@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseRange } from './range';
+
+describe('parseRange', () => {
+  const size = 1000;
+
+  it('serves everything without a usable header', () => {
+    expect(parseRange(undefined, size)).toBeUndefined();
+    expect(parseRange('bytes=-', size)).toBeUndefined();
+    expect(parseRange('items=0-10', size)).toBeUndefined();
+    expect(parseRange('bytes=0-10,20-30', size)).toBeUndefined(); // Multiple ranges are not supported
+  });
+
+  it('parses closed and open-ended ranges', () => {
+    expect(parseRange('bytes=0-99', size)).toEqual({ start: 0, end: 99 });
+    expect(parseRange('bytes=500-', size)).toEqual({ start: 500, end: 999 });
+  });
+
+  it('clamps the end to the last byte', () => {
+    expect(parseRange('bytes=900-5000', size)).toEqual({ start: 900, end: 999 });
+  });
+
+  it('parses suffix ranges, clamped to the whole object', () => {
+    expect(parseRange('bytes=-100', size)).toEqual({ start: 900, end: 999 });
+    expect(parseRange('bytes=-5000', size)).toEqual({ start: 0, end: 999 });
+  });
+
+  it('reports ranges that start past the end or run backwards as unsatisfiable', () => {
+    expect(parseRange('bytes=1000-', size)).toBe('unsatisfiable');
+    expect(parseRange('bytes=50-10', size)).toBe('unsatisfiable');
+    expect(parseRange('bytes=0-', 0)).toBe('unsatisfiable');
+  });
+});
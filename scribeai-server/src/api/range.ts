@@ -0,0 +1,35 @@
+/**
+ * HTTP Range header parsing
+ * Supports the single-range forms browsers send for media: `bytes=start-`, `bytes=start-end`, `bytes=-suffix`
+ */
+
+import { ByteRange } from '../lib/storage';
+
+/**
+ * Parse a Range header against an object size
+ * @returns The range, undefined for no/unsupported header (serve everything), or 'unsatisfiable'
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | undefined | 'unsatisfiable' {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return undefined;
+  }
+
+  let start: number;
+  let end: number;
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+}
@@ -0,0 +1,116 @@
+/**
+ * Transcript search endpoint
+ * Full-text search over the user's session titles, summaries and transcripts (see prisma/sql/search.sql)
+ */
+
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { supabase, AudioSource, SessionStatus } from '../lib/supabase';
+import { getRequestUser } from './auth';
+import { sendError } from './errors';
+import { paginationSchema } from './pagination';
+
+// Delimiters search_sessions puts around matched words in snippets
+const MATCH_START = '⟦';
+const MATCH_END = '⟧';
+
+interface SearchRow {
+  session_id: string;
+  title: string;
+  status: SessionStatus;
+  audio_source: AudioSource;
+  duration: number | null;
+  created_at: string;
+  rank: number;
+  chunk_index: number | null;
+  media_start_ms: number | null;
+  snippet: string;
+  total_count: number;
+}
+
+interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split a headline into plain and matched parts, so clients never render it as markup
+ */
+function parseSnippet(headline: string): SnippetPart[] {
+  return headline
+    .split(MATCH_START)
+    .flatMap((piece, index) => {
+      if (index === 0) return [{ text: piece, match: false }];
+      const end = piece.indexOf(MATCH_END);
+      if (end === -1) return [{ text: piece, match: false }];
+      return [
+        { text: piece.slice(0, end), match: true },
+        { text: piece.slice(end + MATCH_END.length), match: false },
+      ];
+    })
+    .filter((part) => part.text.length > 0);
+}
+
+const searchSchema = paginationSchema(20, 50).extend({
+  q: z.string().trim().min(1).max(200), // Web search syntax: "quoted phrase", OR, -excluded
+  source: z.enum(['microphone', 'tab_share', 'upload', 'import']).optional(),
+  from: z.iso.datetime({ offset: true }).optional(), // Created at or after
+  to: z.iso.datetime({ offset: true }).optional(), // Created before
+});
+
+export const searchRouter = Router();
+
+/**
+ * Search the user's sessions, best match first
+ * Query: q, source, from, to, limit, offset
+ * Each result names the first matching chunk and its media offset, for linking into the recording
+ */
+searchRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = searchSchema.safeParse(req.query);
+    if (!parsed.success) {
+      sendError(res, 400, 'invalid_request', z.prettifyError(parsed.error));
+      return;
+    }
+
+    const { q, source, from, to, limit, offset } = parsed.data;
+    const user = getRequestUser(res);
+
+    const { data, error } = await supabase.rpc('search_sessions', {
+      search_user_id: user.id,
+      query: q,
+      created_from: from ?? null,
+      created_to: to ?? null,
+      source: source ?? null,
+      result_limit: limit,
+      result_offset: offset,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const rows = (data ?? []) as SearchRow[];
+
+    res.json({
+      results: rows.map((row) => ({
+        session: {
+          id: row.session_id,
+          title: row.title,
+          status: row.status,
+          audio_source: row.audio_source,
+          duration: row.duration ?? 0,
+          created_at: row.created_at,
+        },
+        rank: row.rank,
+        chunkIndex: row.chunk_index,
+        mediaStartMs: row.media_start_ms,
+        snippet: parseSnippet(row.snippet),
+      })),
+      pagination: { limit, offset, total: Number(rows[0]?.total_count ?? 0) },
+    });
+  } catch (error) {
+    console.error('Error searching transcripts:', error);
+    sendError(res, 500, 'internal', 'Failed to search transcripts');
+  }
+});
@@ -0,0 +1,444 @@
+/**
+ * Session endpoints
+ * Listing and reading sessions, their transcripts and chunks, plus speaker naming, summary
+ * regeneration, audio streaming and exports
+ */
+
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import {
+  supabase,
+  Session,
+  Transcript,
+  TranscriptChunk,
+  TranscriptSegmentRow,
+} from '../lib/supabase';
+import { auditLog, AuditAction } from '../lib/audit';
+import { applySpeakerNames, SpeakerNames } from '../lib/speakers';
+import { isSummarizerAvailable, summarizeTranscript, toStoredSummary } from '../lib/summarization';
+import { getStorage } from '../lib/storage';
+import { EXPORT_FORMATS, ExportFormatName, loadExportData, renderExport } from '../lib/export';
+import { getRequestUser } from './auth';
+import { sendError } from './errors';
+import { parseRange } from './range';
+import { pageRange, paginationSchema } from './pagination';
+
+export const sessionsRouter = Router();
+
+/**
+ * Load a session and verify the requesting user owns it
+ * Sends `not_found` or `forbidden` and returns null when the check fails
+ */
+async function loadOwnedSession(
+  req: Request<{ id: string }>,
+  res: Response,
+  action: AuditAction
+): Promise<Session | null> {
+  const user = getRequestUser(res);
+  const sessionId = req.params.id;
+
+  // Postgres rejects malformed uuids, so answer them like any other missing session
+  if (!z.uuid().safeParse(sessionId).success) {
+    sendError(res, 404, 'not_found', 'Session not found');
+    return null;
+  }
+
+  const { data: session, error } = await supabase
+    .from('sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!session) {
+    sendError(res, 404, 'not_found', 'Session not found');
+    return null;
+  }
+
+  if (session.user_id !== user.id) {
+    auditLog({
+      event: 'authorization_denied',
+      action,
+      userId: user.id,
+      ip: req.ip,
+      sessionId,
+      ownerId: session.user_id ?? undefined,
+      reason: 'not session owner',
+    });
+    sendError(res, 403, 'forbidden', 'You do not have access to this session');
+    return null;
+  }
+
+  return session as Session;
+}
+
+async function loadTranscript(sessionId: string): Promise<Transcript | null> {
+  const { data, error } = await supabase
+    .from('transcripts')
+    .select('*')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as Transcript | null;
+}
+
+const listSessionsSchema = paginationSchema(20, 100).extend({
+  status: z.enum(['recording', 'paused', 'processing', 'completed', 'failed']).optional(),
+  source: z.enum(['microphone', 'tab_share', 'upload', 'import']).optional(),
+  q: z.string().trim().min(1).max(200).optional(), // Title contains, case-insensitive
+  from: z.iso.datetime({ offset: true }).optional(), // Created at or after
+  to: z.iso.datetime({ offset: true }).optional(), // Created before
+});
+
+/**
+ * List the user's sessions, newest first
+ * Query: limit, offset, status, source, q, from, to
+ */
+sessionsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = listSessionsSchema.safeParse(req.query);
+    if (!parsed.success) {
+      sendError(res, 400, 'invalid_request', z.prettifyError(parsed.error));
+      return;
+    }
+
+    const { status, source, q, from, to, limit, offset } = parsed.data;
+    const user = getRequestUser(res);
+
+    let query = supabase
+      .from('sessions')
+      .select('*', { count: 'exact' })
+      .eq('user_id', user.id);
+
+    if (status) query = query.eq('status', status);
+    if (source) query = query.eq('audio_source', source);
+    if (q) query = query.ilike('title', `%${q.replace(/[\\%_]/g, (char) => `\\${char}`)}%`);
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lt('created_at', to);
+
+    const { data, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range(...pageRange({ limit, offset }));
+
+    if (error) {
+      throw error;
+    }
+
+    res.json({
+      sessions: (data ?? []) as Session[],
+      pagination: { limit, offset, total: count ?? 0 },
+    });
+  } catch (error) {
+    console.error('Error listing sessions:', error);
+    sendError(res, 500, 'internal', 'Failed to list sessions');
+  }
+});
+
+/**
+ * Get one session
+ */
+sessionsRouter.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const session = await loadOwnedSession(req, res, 'view-session');
+    if (!session) return;
+
+    res.json({ session });
+  } catch (error) {
+    console.error('Error loading session:', error);
+    sendError(res, 500, 'internal', 'Failed to load session');
+  }
+});
+
+/**
+ * Get the session's transcript: full text, stored summary and speakers
+ */
+sessionsRouter.get('/:id/transcript', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const session = await loadOwnedSession(req, res, 'view-transcript');
+    if (!session) return;
+
+    const transcript = await loadTranscript(session.id);
+    if (!transcript) {
+      sendError(res, 404, 'not_found', 'Transcript not found');
+      return;
+    }
+
+    res.json({ transcript });
+  } catch (error) {
+    console.error('Error loading transcript:', error);
+    sendError(res, 500, 'internal', 'Failed to load transcript');
+  }
+});
+
+const listChunksSchema = paginationSchema(100, 500);
+
+/**
+ * List the session's transcript chunks in recording order, each with its speaker segments
+ * Query: limit, offset
+ */
+sessionsRouter.get('/:id/chunks', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const parsed = listChunksSchema.safeParse(req.query);
+    if (!parsed.success) {
+      sendError(res, 400, 'invalid_request', z.prettifyError(parsed.error));
+      return;
+    }
+
+    const session = await loadOwnedSession(req, res, 'list-chunks');
+    if (!session) return;
+
+    const { data, count, error } = await supabase
+      .from('transcript_chunks')
+      .select('*, transcript_segments(*)', { count: 'exact' })
+      .eq('session_id', session.id)
+      .order('chunk_index', { ascending: true })
+      .range(...pageRange(parsed.data));
+
+    if (error) {
+      throw error;
+    }
+
+    const chunks = (data ?? []).map(({ transcript_segments: segments, ...chunk }) => ({
+      ...(chunk as TranscriptChunk),
+      segments: ((segments ?? []) as TranscriptSegmentRow[]).sort((a, b) => a.segment_index - b.segment_index),
+    }));
+
+    res.json({ chunks, pagination: { ...parsed.data, total: count ?? 0 } });
+  } catch (error) {
+    console.error('Error listing chunks:', error);
+    sendError(res, 500, 'internal', 'Failed to list chunks');
+  }
+});
+
+const speakerNamesSchema = z.object({
+  names: z.record(z.string().trim().min(1).max(100), z.string().trim().max(100)),
+});
+
+/**
+ * Save display names for the session's speaker labels
+ * Body: { names: { "Speaker 1": "Priya", ... } }; an empty name clears that label's mapping
+ */
+sessionsRouter.put('/:id/speakers', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const parsed = speakerNamesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      sendError(res, 400, 'invalid_request', z.prettifyError(parsed.error));
+      return;
+    }
+
+    const session = await loadOwnedSession(req, res, 'rename-speakers');
+    if (!session) return;
+
+    const transcript = await loadTranscript(session.id);
+    if (!transcript) {
+      sendError(res, 404, 'not_found', 'Transcript not found');
+      return;
+    }
+
+    // Only labels that actually occur in this transcript, and only non-empty names
+    const knownSpeakers = new Set(transcript.speakers ?? []);
+    const speakerNames: SpeakerNames = Object.fromEntries(
+      Object.entries(parsed.data.names).filter(([label, name]) => knownSpeakers.has(label) && name)
+    );
+
+    const { error } = await supabase
+      .from('transcripts')
+      .update({ speaker_names: speakerNames, updated_at: new Date().toISOString() })
+      .eq('id', transcript.id);
+
+    if (error) {
+      throw error;
+    }
+
+    console.log(`🏷️  Speaker names updated for ${session.id}`);
+    res.json({ speakerNames });
+  } catch (error) {
+    console.error('Error updating speaker names:', error);
+    sendError(res, 500, 'internal', 'Failed to update speaker names');
+  }
+});
+
+const regenerateSummarySchema = z.object({
+  summarizer: z.string().optional(),
+});
+
+/**
+ * Regenerate the summary with speaker names in place of labels
+ * Body: { summarizer?: string } — defaults to the summarizer that produced the current summary
+ */
+sessionsRouter.post('/:id/summary', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const parsed = regenerateSummarySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      sendError(res, 400, 'invalid_request', z.prettifyError(parsed.error));
+      return;
+    }
+
+    const requested = parsed.data.summarizer;
+    if (requested && !isSummarizerAvailable(requested)) {
+      sendError(res, 400, 'invalid_request', `Summarizer "${requested}" is not available`);
+      return;
+    }
+
+    const session = await loadOwnedSession(req, res, 'regenerate-summary');
+    if (!session) return;
+
+    const transcript = await loadTranscript(session.id);
+    if (!transcript) {
+      sendError(res, 404, 'not_found', 'Transcript not found');
+      return;
+    }
+
+    const namedTranscript = applySpeakerNames(transcript.full_text, transcript.speaker_names ?? {});
+    const { summarizer, summaryData } = await summarizeTranscript(
+      session.id,
+      namedTranscript,
+      requested ?? (transcript.summarizer && isSummarizerAvailable(transcript.summarizer) ? transcript.summarizer : undefined)
+    );
+
+    const { error } = await supabase
+      .from('transcripts')
+      .update({
+        summary: toStoredSummary(summaryData),
+        summarizer: summarizer.name,
+        summarizer_version: summarizer.version,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', transcript.id);
+
+    if (error) {
+      throw error;
+    }
+
+    console.log(`✨ Summary regenerated for ${session.id} (${summarizer.name})`);
+    res.json({
+      summary: summaryData,
+      summarizer: { name: summarizer.name, version: summarizer.version },
+    });
+  } catch (error) {
+    console.error('Error regenerating summary:', error);
+    sendError(res, 500, 'internal', 'Failed to regenerate summary');
+  }
+});
+
+/**
+ * Stream the session's original audio, with HTTP range support for seeking
+ */
+sessionsRouter.get('/:id/audio', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const session = await loadOwnedSession(req, res, 'stream-audio');
+    if (!session) return;
+
+    if (!session.audio_path) {
+      sendError(res, 404, 'not_found', 'No audio stored for this session');
+      return;
+    }
+
+    const storage = getStorage();
+    const object = await storage.head(session.audio_path);
+    if (!object) {
+      sendError(res, 404, 'not_found', 'Audio file is missing');
+      return;
+    }
+
+    const range = parseRange(req.headers.range, object.size);
+    if (range === 'unsatisfiable') {
+      res.status(416).set('Content-Range', `bytes */${object.size}`).end();
+      return;
+    }
+
+    res.set({
+      'Accept-Ranges': 'bytes',
+      'Content-Type': session.audio_mime || 'application/octet-stream',
+      'Cache-Control': 'private, no-store',
+    });
+
+    if (range) {
+      res.status(206).set({
+        'Content-Range': `bytes ${range.start}-${range.end}/${object.size}`,
+        'Content-Length': String(range.end - range.start + 1),
+      });
+    } else {
+      res.set('Content-Length', String(object.size));
+    }
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    const stream = await storage.getStream(session.audio_path, range);
+    stream.on('error', (error) => {
+      console.error(`Error streaming audio for ${session.id}:`, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Error streaming audio:', error);
+    if (!res.headersSent) {
+      sendError(res, 500, 'internal', 'Failed to stream audio');
+    }
+  }
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(Object.keys(EXPORT_FORMATS) as [ExportFormatName, ...ExportFormatName[]]),
+});
+
+/**
+ * File name for an export: the session title as a slug, or the session id
+ */
+function exportFileName(session: Session, extension: string): string {
+  const slug = session.title
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_-]+/g, '-')
+    .toLowerCase()
+    .slice(0, 80);
+  return `${slug || session.id}.${extension}`;
+}
+
+/**
+ * Download the session as subtitles (srt, vtt), a document (md, docx, pdf) or a JSON bundle
+ * Query: ?format=srt|vtt|md|docx|pdf|json
+ */
+sessionsRouter.get('/:id/export', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const parsed = exportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      sendError(res, 400, 'invalid_request', z.prettifyError(parsed.error));
+      return;
+    }
+
+    const session = await loadOwnedSession(req, res, 'export-session');
+    if (!session) return;
+
+    const transcript = await loadTranscript(session.id);
+    if (!transcript) {
+      sendError(res, 404, 'not_found', 'Transcript not found');
+      return;
+    }
+
+    const format = EXPORT_FORMATS[parsed.data.format];
+    const body = await renderExport(parsed.data.format, await loadExportData(session, transcript));
+
+    console.log(`📦 Exported ${session.id} as ${format.extension}`);
+    res.set({
+      'Content-Type': format.contentType,
+      'Content-Disposition': `attachment; filename="${exportFileName(session, format.extension)}"`,
+      'Cache-Control': 'private, no-store',
+    });
+    res.send(body);
+  } catch (error) {
+    console.error('Error exporting session:', error);
+    sendError(res, 500, 'internal', 'Failed to export session');
+  }
+});
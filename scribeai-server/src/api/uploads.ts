@@ -0,0 +1,184 @@
+/**
+ * Upload endpoint
+ * Accepts a pre-recorded audio/video file and processes it like a live session
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { NextFunction, Request, Response, Router } from 'express';
+import multer from 'multer';
+import { Server } from 'socket.io';
+import { z } from 'zod';
+import { supabase } from '../lib/supabase';
+import { auditLog } from '../lib/audit';
+import { config } from '../lib/config';
+import { defaultSummarizerName, isSummarizerAvailable } from '../lib/summarization';
+import { activeSessions, userRoom } from '../sockets/sessions';
+import { processUpload } from '../sockets/upload';
+import { getRequestUser } from './auth';
+import { sendError } from './errors';
+
+const ALLOWED_EXTENSIONS = new Set(['.mp3', '.wav', '.m4a', '.webm', '.mp4']);
+
+// MIME type stored for playback; browsers report some of these files under legacy or generic types
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.webm': 'audio/webm',
+  '.mp4': 'video/mp4',
+};
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, cb) => {
+      fs.promises
+        .mkdir(config.uploadDir, { recursive: true })
+        .then(() => cb(null, config.uploadDir), (error) => cb(error, config.uploadDir));
+    },
+    filename: (_req, file, cb) => {
+      cb(null, `${randomUUID()}${path.extname(file.originalname).toLowerCase()}`);
+    },
+  }),
+  limits: { fileSize: config.uploadMaxBytes, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    cb(null, ALLOWED_EXTENSIONS.has(path.extname(file.originalname).toLowerCase()));
+  },
+});
+
+/**
+ * Run multer and turn its errors into API errors
+ */
+function receiveFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      sendError(res, 413, 'invalid_request', `File is larger than ${config.uploadMaxBytes / 1024 / 1024} MB`);
+    } else if (error instanceof multer.MulterError) {
+      sendError(res, 400, 'invalid_request', error.message);
+    } else if (error) {
+      next(error);
+    } else {
+      next();
+    }
+  });
+}
+
+const uploadSchema = z.object({
+  sessionId: z.uuid(),
+  title: z.string().trim().max(200).optional(),
+  summarizer: z.string().optional(),
+});
+
+/**
+ * Routes for uploaded recordings
+ * Progress is emitted to the session room, which all of the user's sockets are joined to
+ */
+export function createUploadsRouter(io: Server): Router {
+  const router = Router();
+
+  /**
+   * Upload a recording (multipart: `file`, `sessionId`, optional `title` and `summarizer`)
+   * Responds 202 once the file is stored; transcription continues in the background
+   */
+  router.post('/', receiveFile, async (req: Request, res: Response) => {
+    const file = req.file;
+    let accepted = false;
+
+    try {
+      if (!file) {
+        sendError(res, 400, 'invalid_request', `Attach an audio or video file (${[...ALLOWED_EXTENSIONS].join(', ')})`);
+        return;
+      }
+
+      const parsed = uploadSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        sendError(res, 400, 'invalid_request', z.prettifyError(parsed.error));
+        return;
+      }
+
+      const { sessionId, title } = parsed.data;
+      const user = getRequestUser(res);
+
+      if (parsed.data.summarizer && !isSummarizerAvailable(parsed.data.summarizer)) {
+        sendError(res, 400, 'invalid_request', `Summarizer "${parsed.data.summarizer}" is not available`);
+        return;
+      }
+      const summarizer = parsed.data.summarizer || defaultSummarizerName();
+
+      // Session ids are client-generated, so refuse ids that already exist
+      const { data: stored, error: lookupError } = await supabase
+        .from('sessions')
+        .select('user_id')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      if (lookupError) {
+        throw lookupError;
+      }
+
+      const ownerId = stored?.user_id ?? activeSessions.get(sessionId)?.userId;
+      if (stored || activeSessions.has(sessionId)) {
+        if (ownerId && ownerId !== user.id) {
+          auditLog({
+            event: 'authorization_denied',
+            action: 'upload-session',
+            userId: user.id,
+            ip: req.ip,
+            sessionId,
+            ownerId,
+            reason: 'session id in use',
+          });
+          sendError(res, 403, 'forbidden', 'You do not have access to this session');
+        } else {
+          sendError(res, 409, 'conflict', 'Session already exists');
+        }
+        return;
+      }
+
+      const extension = path.extname(file.originalname).toLowerCase();
+      const { error } = await supabase.from('sessions').insert({
+        id: sessionId,
+        user_id: user.id,
+        title: title || path.basename(file.originalname, extension),
+        status: 'processing',
+        audio_source: 'upload',
+        duration: 0,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      // Progress goes to the session room; put every socket the user has open in it
+      io.in(userRoom(user.id)).socketsJoin(sessionId);
+
+      console.log(`📤 Upload received: ${sessionId} (${file.originalname}, ${file.size} bytes)`);
+      res.status(202).json({ sessionId, status: 'processing' });
+      accepted = true;
+
+      processUpload(io, {
+        sessionId,
+        userId: user.id,
+        filePath: file.path,
+        fileName: file.originalname,
+        mimeType: EXTENSION_MIME_TYPES[extension] ?? file.mimetype,
+        summarizer,
+      }).catch((processError) => {
+        console.error(`Error processing upload ${sessionId}:`, processError);
+      });
+    } catch (error) {
+      console.error('Error accepting upload:', error);
+      sendError(res, 500, 'internal', 'Failed to accept upload');
+    } finally {
+      // Rejected uploads are not kept; accepted ones are removed by processUpload
+      if (file && !accepted) {
+        fs.promises.rm(file.path, { force: true }).catch(() => undefined);
+      }
+    }
+  });
+
+  return router;
+}
@@ -9,17 +9,29 @@ import { Server } from 'socket.io';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { setupSocketHandlers } from './sockets/recording';
+import { authenticateSocket } from './sockets/auth';
+import { startSessionReaper } from './sockets/reaper';
+import { failInterruptedSessions } from './sockets/finalize';
+import { startTranscriptionQueue } from './sockets/transcription';
+import { clearStaleUploads } from './sockets/upload';
+import { createTranscriptionProvider } from './lib/transcription';
+import { createApiRouter } from './api';
+import { clearStaleSpools } from './lib/audioSpool';
+import { config } from './lib/config';
 import { supabase } from './lib/supabase';
 
 dotenv.config();
 
+const startedAt = new Date();
+
 const app = express();
 const httpServer = createServer(app);
 
 // Configure CORS
 app.use(cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['Content-Disposition'] // Export file names
 }));
 
 app.use(express.json());
@@ -39,9 +51,54 @@ const io = new Server(httpServer, {
   maxHttpBufferSize: 1e8 // 100MB for audio chunks
 });
 
+// REST API for finished sessions and uploads
+app.use('/api/v1', createApiRouter(io));
+
+// Reject sockets without a valid Better Auth session
+io.use(authenticateSocket);
+
+// Transcribe chunks through the persistent job queue
+const stopTranscriptionQueue = startTranscriptionQueue(io, createTranscriptionProvider());
+
+// Spools left by a previous run belong to sessions that no longer exist
+clearStaleSpools(config.audioSpoolDir)
+  .then((removed) => {
+    if (removed > 0) {
+      console.log(`🧹 Removed ${removed} stale audio spools`);
+    }
+  })
+  .catch((error) => {
+    console.error('Error clearing stale audio spools:', error);
+  });
+
+// Uploads left by a previous run were never finished
+clearStaleUploads(config.uploadDir)
+  .then((removed) => {
+    if (removed > 0) {
+      console.log(`🧹 Removed ${removed} stale uploads`);
+    }
+  })
+  .catch((error) => {
+    console.error('Error clearing stale uploads:', error);
+  });
+
+// Sessions a previous run was recording or processing lost their in-memory state
+failInterruptedSessions(io, startedAt)
+  .then((failed) => {
+    if (failed > 0) {
+      console.log(`🧹 Marked ${failed} interrupted sessions failed`);
+    }
+  })
+  .catch((error) => {
+    console.error('Error failing interrupted sessions:', error);
+  });
+
 // Setup socket event handlers
 setupSocketHandlers(io);
 
+// Finalize sessions abandoned by disconnected clients
+const stopSessionReaper = startSessionReaper(io);
+
 const PORT = process.env.PORT || 3001;
 
 httpServer.listen(PORT, () => {
@@ -52,6 +109,8 @@ httpServer.listen(PORT, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, closing server...');
+  stopSessionReaper();
+  stopTranscriptionQueue();
   httpServer.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  containerForMimeType,
+  detectContainer,
+  extractInitSegment,
+  resolveMimeType,
+  toStandaloneChunk,
+} from './audioContainer';
+
+const EBML_HEADER = Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x01, 0x02]);
+const CLUSTER = Buffer.from([0x1f, 0x43, 0xb6, 0x75, 0x09]);
+
+/**
+ * One Ogg page with the given granule position and body
+ */
+function oggPage(granule: number, body: Buffer): Buffer {
+  const header = Buffer.alloc(27 + 1);
+  header.write('OggS', 0, 'latin1');
+  header.writeBigInt64LE(BigInt(granule), 6);
+  header[26] = 1; // One lacing value
+  header[27] = body.length;
+  return Buffer.concat([header, body]);
+}
+
+describe('detectContainer', () => {
+  it('recognizes WebM, MP4 and Ogg by their leading bytes', () => {
+    expect(detectContainer(EBML_HEADER)).toBe('webm');
+    expect(detectContainer(Buffer.from('\0\0\0\x18ftypisom', 'latin1'))).toBe('mp4');
+    expect(detectContainer(oggPage(0, Buffer.from('OpusHead')))).toBe('ogg');
+    expect(detectContainer(CLUSTER)).toBe('unknown');
+  });
+});
+
+describe('MIME types', () => {
+  it('reads the container from MediaRecorder types', () => {
+    expect(containerForMimeType('video/webm;codecs=vp8,opus')).toBe('webm');
+    expect(containerForMimeType('audio/mp4')).toBe('mp4');
+    expect(containerForMimeType('audio/wav')).toBe('unknown');
+  });
+
+  it('drops codec parameters and trusts the bytes over a mismatched client type', () => {
+    expect(resolveMimeType('audio/webm;codecs=opus', 'webm')).toBe('audio/webm');
+    expect(resolveMimeType('audio/webm', 'ogg')).toBe('audio/ogg');
+    expect(resolveMimeType(undefined, 'unknown')).toBe('audio/webm');
+  });
+});
+
+describe('WebM timeslices', () => {
+  const firstChunk = Buffer.concat([EBML_HEADER, CLUSTER, Buffer.from('frames')]);
+
+  it('takes everything before the first Cluster as the init segment', () => {
+    expect(extractInitSegment(firstChunk, 'webm')).toEqual(EBML_HEADER);
+  });
+
+  it('prefixes later slices with the init segment, dropping a partial element before the Cluster', () => {
+    const later = Buffer.concat([Buffer.from('tail'), CLUSTER, Buffer.from('more')]);
+    expect(toStandaloneChunk(later, EBML_HEADER, 'webm')).toEqual(
+      Buffer.concat([EBML_HEADER, CLUSTER, Buffer.from('more')])
+    );
+  });
+
+  it('leaves chunks that already carry a header alone', () => {
+    expect(toStandaloneChunk(firstChunk, EBML_HEADER, 'webm')).toBe(firstChunk);
+  });
+});
+
+describe('Ogg timeslices', () => {
+  it('keeps only the codec header pages as the init segment', () => {
+    const headers = Buffer.concat([oggPage(0, Buffer.from('OpusHead')), oggPage(0, Buffer.from('OpusTags'))]);
+    const audio = oggPage(960, Buffer.from('audio'));
+
+    expect(extractInitSegment(Buffer.concat([headers, audio]), 'ogg')).toEqual(headers);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Audio container handling for MediaRecorder timeslices
+ * Only the first timeslice carries the container's init segment (WebM EBML header and Tracks,
+ * MP4 ftyp/moov, Ogg codec header pages). These helpers capture it and prepend it to later
+ * chunks so each chunk decodes as a standalone file.
+ */
+
+export type AudioContainer = 'webm' | 'mp4' | 'ogg' | 'unknown';
+
+const EBML_MAGIC = Buffer.from([0x1a, 0x45, 0xdf, 0xa3]);
+const WEBM_CLUSTER_ID = Buffer.from([0x1f, 0x43, 0xb6, 0x75]);
+const OGG_CAPTURE = Buffer.from('OggS');
+const MP4_MOOF = Buffer.from('moof');
+
+const CONTAINER_MIME_TYPES: Record<Exclude<AudioContainer, 'unknown'>, string> = {
+  webm: 'audio/webm',
+  mp4: 'audio/mp4',
+  ogg: 'audio/ogg',
+};
+
+/**
+ * File extension for a container
+ */
+export function containerExtension(container: AudioContainer): string {
+  return container === 'unknown' ? 'bin' : container;
+}
+
+/**
+ * Identify the container from its leading bytes
+ */
+export function detectContainer(buffer: Buffer): AudioContainer {
+  if (buffer.subarray(0, 4).equals(EBML_MAGIC)) return 'webm';
+  if (buffer.subarray(4, 8).toString('latin1') === 'ftyp') return 'mp4';
+  if (buffer.subarray(0, 4).equals(OGG_CAPTURE)) return 'ogg';
+  return 'unknown';
+}
+
+/**
+ * Container implied by a MIME type such as `video/webm;codecs=vp8,opus`
+ */
+export function containerForMimeType(mimeType: string): AudioContainer {
+  const subtype = mimeType.split(';')[0].trim().toLowerCase().split('/')[1];
+  if (subtype === 'webm' || subtype === 'x-matroska') return 'webm';
+  if (subtype === 'mp4' || subtype === 'm4a') return 'mp4';
+  if (subtype === 'ogg') return 'ogg';
+  return 'unknown';
+}
+
+/**
+ * MIME type to send to the transcription provider: the client's type without codec parameters,
+ * unless the bytes say it is a different container
+ */
+export function resolveMimeType(clientMimeType: string | undefined, container: AudioContainer): string {
+  const baseType = clientMimeType?.split(';')[0].trim().toLowerCase();
+
+  if (baseType && (container === 'unknown' || containerForMimeType(baseType) === container)) {
+    return baseType;
+  }
+
+  return container === 'unknown' ? 'audio/webm' : CONTAINER_MIME_TYPES[container];
+}
+
+/**
+ * Byte length of the Ogg pages at the start of a buffer that carry codec headers
+ * (granule position 0), or 0 if the buffer does not start with a page
+ */
+function oggHeaderPagesLength(buffer: Buffer): number {
+  let offset = 0;
+
+  while (offset + 27 <= buffer.length && buffer.subarray(offset, offset + 4).equals(OGG_CAPTURE)) {
+    const granule = buffer.readBigInt64LE(offset + 6);
+    const segmentCount = buffer[offset + 26];
+    if (offset + 27 + segmentCount > buffer.length) break;
+
+    let bodyLength = 0;
+    for (let i = 0; i < segmentCount; i++) {
+      bodyLength += buffer[offset + 27 + i];
+    }
+
+    if (granule !== BigInt(0)) break;
+    offset += 27 + segmentCount + bodyLength;
+  }
+
+  return Math.min(offset, buffer.length);
+}
+
+/**
+ * Byte offset of the first top-level MP4 box of a given type, walking box headers
+ */
+function mp4BoxOffset(buffer: Buffer, type: string): number {
+  let offset = 0;
+
+  while (offset + 8 <= buffer.length) {
+    const size = buffer.readUInt32BE(offset);
+    if (buffer.toString('latin1', offset + 4, offset + 8) === type) return offset;
+    if (size < 8) break; // 0 (to end of file) or 64-bit sizes never precede the fragments
+    offset += size;
+  }
+
+  return -1;
+}
+
+/**
+ * Extract the init segment from the first chunk of a recording
+ * @returns null if the chunk has no recognizable header
+ */
+export function extractInitSegment(firstChunk: Buffer, container: AudioContainer): Buffer | null {
+  switch (container) {
+    case 'webm': {
+      const clusterOffset = firstChunk.indexOf(WEBM_CLUSTER_ID);
+      return Buffer.from(clusterOffset > 0 ? firstChunk.subarray(0, clusterOffset) : firstChunk);
+    }
+    case 'mp4': {
+      const moofOffset = mp4BoxOffset(firstChunk, 'moof');
+      return Buffer.from(moofOffset > 0 ? firstChunk.subarray(0, moofOffset) : firstChunk);
+    }
+    case 'ogg': {
+      const headerLength = oggHeaderPagesLength(firstChunk);
+      return headerLength > 0 ? Buffer.from(firstChunk.subarray(0, headerLength)) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Turn a later timeslice into a standalone file: drop any partial element left over from the
+ * previous slice, then put the init segment in front
+ */
+export function toStandaloneChunk(chunk: Buffer, initSegment: Buffer, container: AudioContainer): Buffer {
+  // Chunks that already start with a header (e.g. the first one) need nothing
+  if (detectContainer(chunk) !== 'unknown') {
+    return chunk;
+  }
+
+  const marker =
+    container === 'webm' ? chunk.indexOf(WEBM_CLUSTER_ID) :
+    container === 'mp4' ? chunk.indexOf(MP4_MOOF) - 4 :
+    container === 'ogg' ? chunk.indexOf(OGG_CAPTURE) :
+    -1;
+
+  const body = marker > 0 ? chunk.subarray(marker) : chunk;
+  return Buffer.concat([initSegment, body]);
+}
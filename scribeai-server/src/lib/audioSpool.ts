@@ -0,0 +1,137 @@
+/**
+ * Session audio spool
+ * Appends a session's raw audio chunks to one file on disk and keeps only an offset index in
+ * memory, so memory use stays flat however long the recording runs
+ */
+
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+
+interface SpoolEntry {
+  offset: number;
+  length: number;
+}
+
+export interface AudioSpool {
+  readonly path: string;
+  /**
+   * Append a chunk; appends are written one at a time in call order
+   */
+  append(chunkIndex: number, audio: Buffer): Promise<void>;
+  /**
+   * Read one chunk back
+   */
+  read(chunkIndex: number): Promise<Buffer>;
+  /**
+   * Chunk indices written so far, in recording order
+   */
+  chunkIndices(): number[];
+  /**
+   * Total bytes written
+   */
+  size(): number;
+  /**
+   * Stream every chunk in recording order, regardless of arrival order
+   */
+  stream(): Readable;
+  /**
+   * Delete the spool file
+   */
+  remove(): Promise<void>;
+}
+
+/**
+ * Create the spool for a session
+ * @throws Error if the session id would place the spool outside `directory`
+ */
+export function createAudioSpool(directory: string, sessionId: string): AudioSpool {
+  const root = path.resolve(directory);
+  const spoolPath = path.resolve(root, `${sessionId}.spool`);
+  if (path.dirname(spoolPath) !== root) {
+    throw new Error(`Invalid spool name: ${sessionId}`);
+  }
+
+  const index = new Map<number, SpoolEntry>();
+  let bytesWritten = 0;
+
+  // Appends are chained so offsets match the order bytes land in the file
+  let writes: Promise<void> = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+
+  const orderedIndices = () => [...index.keys()].sort((a, b) => a - b);
+
+  return {
+    path: spoolPath,
+
+    append(chunkIndex, audio) {
+      const write = writes.then(async () => {
+        await fs.appendFile(spoolPath, audio);
+        index.set(chunkIndex, { offset: bytesWritten, length: audio.length });
+        bytesWritten += audio.length;
+      });
+
+      // Keep the chain alive after a failed write; the caller still sees the error
+      writes = write.catch(() => undefined);
+      return write;
+    },
+
+    async read(chunkIndex) {
+      const entry = index.get(chunkIndex);
+      if (!entry) {
+        throw new Error(`Chunk ${chunkIndex} is not in the spool for ${sessionId}`);
+      }
+
+      const handle = await fs.open(spoolPath, 'r');
+      try {
+        const buffer = Buffer.alloc(entry.length);
+        await handle.read(buffer, 0, entry.length, entry.offset);
+        return buffer;
+      } finally {
+        await handle.close();
+      }
+    },
+
+    chunkIndices: orderedIndices,
+
+    size: () => bytesWritten,
+
+    stream() {
+      const entries = orderedIndices().map((chunkIndex) => index.get(chunkIndex)!);
+
+      return Readable.from(
+        (async function* () {
+          for (const entry of entries) {
+            if (entry.length === 0) continue;
+            yield* createReadStream(spoolPath, {
+              start: entry.offset,
+              end: entry.offset + entry.length - 1,
+            });
+          }
+        })()
+      );
+    },
+
+    async remove() {
+      await writes;
+      index.clear();
+      await fs.rm(spoolPath, { force: true });
+    },
+  };
+}
+
+// Spools, plus the recordings finalization writes next to them for remuxing
+const SPOOL_FILE = /\.spool$|\.(recording|remuxed)\.\w+$/;
+
+/**
+ * Delete spool files left behind by a previous process; their sessions no longer exist
+ * @returns Number of files removed
+ */
+export async function clearStaleSpools(directory: string): Promise<number> {
+  await fs.mkdir(directory, { recursive: true });
+
+  const files = (await fs.readdir(directory)).filter((file) => SPOOL_FILE.test(file));
+  await Promise.all(files.map((file) => fs.rm(path.join(directory, file), { force: true })));
+
+  return files.length;
+}
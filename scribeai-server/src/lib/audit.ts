@@ -0,0 +1,38 @@
+/**
+ * Security audit logging
+ * Emits one structured JSON line per security-relevant event so they can be shipped and queried
+ */
+
+export type AuditAction =
+  | 'start-session'
+  | 'audio-chunk'
+  | 'pause-session'
+  | 'resume-session'
+  | 'stop-session'
+  | 'rejoin-session'
+  | 'view-session'
+  | 'view-transcript'
+  | 'list-chunks'
+  | 'rename-speakers'
+  | 'regenerate-summary'
+  | 'stream-audio'
+  | 'export-session'
+  | 'upload-session';
+
+export interface AuditEntry {
+  event: 'authorization_denied';
+  action: AuditAction;
+  userId: string;
+  socketId?: string; // Socket.io requests
+  ip?: string; // HTTP requests
+  sessionId: string;
+  ownerId?: string;
+  reason: string;
+}
+
+/**
+ * Write an audit log entry
+ */
+export function auditLog(entry: AuditEntry): void {
+  console.warn(`🛡️  AUDIT ${JSON.stringify({ ...entry, timestamp: new Date().toISOString() })}`);
+}
@@ -0,0 +1,160 @@
+/**
+ * Better Auth session verification
+ * Resolves the session cookie or token issued by the frontend against the `session` table
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import dotenv from 'dotenv';
+import { pool } from './db';
+
+dotenv.config();
+
+const authSecret = process.env.BETTER_AUTH_SECRET;
+
+if (!authSecret) {
+  console.warn('⚠️  BETTER_AUTH_SECRET not configured. Session cookie signatures will not be verified.');
+}
+
+// Better Auth prefixes the cookie with __Secure- when served over HTTPS
+const SESSION_COOKIE_NAMES = [
+  '__Secure-better-auth.session_token',
+  'better-auth.session_token',
+];
+
+/**
+ * Authenticated user resolved from a Better Auth session
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+  sessionId: string;
+}
+
+/**
+ * Credentials a client can present: raw session token, Authorization header or cookies
+ */
+export interface AuthCredentials {
+  token?: unknown;
+  authorization?: string;
+  cookie?: string;
+}
+
+/**
+ * Parse a Cookie header into a name/value map
+ */
+function parseCookies(header: string): Map<string, string> {
+  const cookies = new Map<string, string>();
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator < 0) continue;
+
+    const name = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+
+    try {
+      cookies.set(name, decodeURIComponent(value));
+    } catch {
+      cookies.set(name, value);
+    }
+  }
+
+  return cookies;
+}
+
+/**
+ * Extract the session token from a signed cookie value (`<token>.<signature>`)
+ * @returns Token, or null if the signature does not match
+ */
+function unsignCookieValue(value: string): string | null {
+  const separator = value.lastIndexOf('.');
+  if (separator < 1) {
+    return null;
+  }
+
+  const token = value.slice(0, separator);
+  if (!authSecret) {
+    return token;
+  }
+
+  const signature = Buffer.from(value.slice(separator + 1), 'base64');
+  const expected = createHmac('sha256', authSecret).update(token).digest();
+
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    return null;
+  }
+
+  return token;
+}
+
+/**
+ * Pick the session token out of the presented credentials
+ * Precedence: explicit token, Bearer header, session cookie
+ */
+export function extractSessionToken(credentials: AuthCredentials): string | null {
+  if (typeof credentials.token === 'string' && credentials.token) {
+    return credentials.token;
+  }
+
+  const bearer = credentials.authorization?.match(/^Bearer\s+(.+)$/i);
+  if (bearer) {
+    return bearer[1].trim();
+  }
+
+  if (credentials.cookie) {
+    const cookies = parseCookies(credentials.cookie);
+    for (const name of SESSION_COOKIE_NAMES) {
+      const value = cookies.get(name);
+      if (value) {
+        return unsignCookieValue(value);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Look up an unexpired Better Auth session by token
+ * @returns The session's user, or null if the token is unknown or expired
+ */
+export async function verifySessionToken(token: string): Promise<AuthUser | null> {
+  const { rows } = await pool.query<{
+    session_id: string;
+    user_id: string;
+    email: string;
+    name: string | null;
+  }>(
+    `SELECT s.id AS session_id, u.id AS user_id, u.email, u.name
+       FROM "session" s
+       JOIN "user" u ON u.id = s."userId"
+      WHERE s.token = $1 AND s."expiresAt" > now()
+      LIMIT 1`,
+    [token]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const [row] = rows;
+  return {
+    id: row.user_id,
+    email: row.email,
+    name: row.name,
+    sessionId: row.session_id,
+  };
+}
+
+/**
+ * Resolve presented credentials to an authenticated user
+ */
+export async function authenticate(credentials: AuthCredentials): Promise<AuthUser | null> {
+  const token = extractSessionToken(credentials);
+  if (!token) {
+    return null;
+  }
+
+  return verifySessionToken(token);
+}
@@ -0,0 +1,88 @@
+/**
+ * Server configuration
+ * Tunables read from the environment, with defaults suitable for local development
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Read a non-negative integer from the environment
+ */
+function readInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+
+  const value = Number.parseInt(raw, 10);
+  if (Number.isNaN(value) || value < 0) {
+    console.warn(`⚠️  Invalid ${name}="${raw}", using default ${fallback}`);
+    return fallback;
+  }
+
+  return value;
+}
+
+/**
+ * Read a string from the environment
+ */
+function readString(name: string, fallback: string): string {
+  return process.env[name] || fallback;
+}
+
+export const config = {
+  // How long a session may stay paused without its recording socket before it is finalized
+  sessionGracePeriodMs: readInt('SESSION_GRACE_PERIOD_MS', 10 * 60 * 1000),
+  // How often the reaper scans for orphaned sessions
+  reaperIntervalMs: readInt('SESSION_REAPER_INTERVAL_MS', 60 * 1000),
+  // Longest a stopping session waits for outstanding chunks and transcriptions
+  finalizeTimeoutMs: readInt('FINALIZE_TIMEOUT_MS', 60 * 1000),
+
+  // Speech-to-text backend: gemini | fixture (offline, scripted)
+  transcriptionProvider: readString('TRANSCRIPTION_PROVIDER', 'gemini'),
+  transcriptionFixturePath: process.env.TRANSCRIPTION_FIXTURE_PATH || undefined,
+  geminiApiKey: readString('GEMINI_API_KEY', ''),
+  geminiTranscriptionModel: readString('GEMINI_TRANSCRIPTION_MODEL', 'gemini-2.5-flash'),
+
+  // Summarizers: gemini | extractive (offline) | openai (any OpenAI-compatible endpoint)
+  defaultSummarizer: readString('DEFAULT_SUMMARIZER', 'gemini'),
+  geminiSummaryModel: readString('GEMINI_SUMMARY_MODEL', 'gemini-2.5-flash'),
+  openaiCompatBaseUrl: process.env.OPENAI_COMPAT_BASE_URL || undefined,
+  openaiCompatApiKey: process.env.OPENAI_COMPAT_API_KEY || undefined,
+  openaiCompatModel: readString('OPENAI_COMPAT_MODEL', 'gpt-4o-mini'),
+
+  // Where in-progress session audio is spooled (one append-only file per session)
+  audioSpoolDir: readString('AUDIO_SPOOL_DIR', 'data/spool'),
+
+  // Uploaded recordings: temp directory, size cap, and the ffmpeg used to split them into chunks
+  uploadDir: readString('UPLOAD_DIR', 'data/uploads'),
+  uploadMaxBytes: readInt('UPLOAD_MAX_MB', 500) * 1024 * 1024,
+  uploadChunkSeconds: readInt('UPLOAD_CHUNK_SECONDS', 30), // Matches the recorder's timeslice
+  ffmpegPath: readString('FFMPEG_PATH', 'ffmpeg'),
+  ffprobePath: readString('FFPROBE_PATH', 'ffprobe'),
+
+  // TrueType fonts for PDF exports; the bundled DejaVu Sans covers Latin, Greek and Cyrillic,
+  // so point these at e.g. Noto Sans CJK for Chinese, Japanese or Korean transcripts
+  pdfFontPath: process.env.PDF_FONT_PATH || undefined,
+  pdfBoldFontPath: process.env.PDF_BOLD_FONT_PATH || undefined,
+
+  // Permanent storage for finalized session audio: local | s3
+  storageBackend: readString('STORAGE_BACKEND', 'local'),
+  storageLocalDir: readString('STORAGE_LOCAL_DIR', 'data/audio'),
+  s3Bucket: process.env.S3_BUCKET || undefined,
+  s3Region: readString('S3_REGION', 'us-east-1'),
+  s3Endpoint: process.env.S3_ENDPOINT || undefined, // S3-compatible servers such as MinIO
+  s3ForcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+  s3AccessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+  s3SecretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+
+  // Transcription queue: persisted jobs, concurrency caps and retry backoff
+  transcriptionQueueDir: readString('TRANSCRIPTION_QUEUE_DIR', 'data/queue'),
+  transcriptionConcurrency: readInt('TRANSCRIPTION_CONCURRENCY', 4),
+  transcriptionConcurrencyPerUser: readInt('TRANSCRIPTION_CONCURRENCY_PER_USER', 2),
+  transcriptionMaxAttempts: readInt('TRANSCRIPTION_MAX_ATTEMPTS', 5),
+  transcriptionRetryBaseMs: readInt('TRANSCRIPTION_RETRY_BASE_MS', 1000),
+  transcriptionRetryMaxMs: readInt('TRANSCRIPTION_RETRY_MAX_MS', 60 * 1000),
+};
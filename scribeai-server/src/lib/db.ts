@@ -0,0 +1,27 @@
+/**
+ * PostgreSQL connection pool
+ * Direct database access for tables that are not exposed through Supabase (Better Auth)
+ */
+
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const databaseUrl = process.env.DATABASE_URL;
+
+if (!databaseUrl) {
+  console.warn('⚠️  DATABASE_URL not configured. Authenticated connections will be rejected.');
+}
+
+export const pool = new Pool({
+  connectionString: databaseUrl,
+  ssl: { rejectUnauthorized: false }, // Supabase requires SSL
+  connectionTimeoutMillis: 10000,
+  idleTimeoutMillis: 30000,
+  max: 5,
+});
+
+pool.on('error', (err) => {
+  console.error('❌ Database connection error:', err.message);
+});
@@ -0,0 +1,64 @@
+/**
+ * Error types shared by the transcription pipeline
+ */
+
+// Network-level failures that are worth retrying
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+/**
+ * Transcription failure that knows whether trying again could help
+ */
+export class TranscriptionError extends Error {
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(message: string, retryable: boolean, status?: number) {
+    super(message);
+    this.name = 'TranscriptionError';
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+/**
+ * Decide whether an error is transient (rate limits, server errors, dropped connections)
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TranscriptionError) {
+    return error.retryable;
+  }
+
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const { status, code, cause, message } = error as {
+    status?: unknown;
+    code?: unknown;
+    cause?: unknown;
+    message?: unknown;
+  };
+
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  if (typeof code === 'string' && RETRYABLE_ERROR_CODES.has(code)) {
+    return true;
+  }
+
+  // fetch() wraps socket errors: TypeError('fetch failed', { cause })
+  if (cause && isRetryableError(cause)) {
+    return true;
+  }
+
+  return typeof message === 'string' && /fetch failed|network|timed? ?out/i.test(message);
+}
@@ -0,0 +1,50 @@
+/**
+ * Document outline shared by the Markdown, DOCX and PDF exports
+ */
+
+import { formatClock, toTurns } from './timeline';
+import type { ExportData, TimelineEntry } from './types';
+
+export interface DocumentOutline {
+  title: string;
+  details: string[]; // Date, duration, source, speakers
+  summary?: string;
+  lists: { heading: string; items: string[] }[]; // Non-empty summary lists only
+  turns: (TimelineEntry & { clock: string })[];
+}
+
+export function buildOutline(data: ExportData): DocumentOutline {
+  const { session, transcript, summary, timeline } = data;
+  const minutes = Math.floor(session.duration / 60);
+  const speakers = (transcript.speakers ?? []).map(
+    (label) => transcript.speaker_names?.[label]?.trim() || label
+  );
+
+  const details = [
+    `Date: ${new Date(session.created_at).toLocaleString('en-US', { timeZone: 'UTC' })} UTC`,
+    `Duration: ${minutes}m ${session.duration % 60}s`,
+    `Source: ${session.audio_source.replace('_', ' ')}`,
+  ];
+  if (speakers.length > 0) {
+    details.push(`Speakers: ${speakers.join(', ')}`);
+  }
+  if (transcript.summarizer) {
+    details.push(`Summary by: ${transcript.summarizer}${transcript.summarizer_version ? ` (${transcript.summarizer_version})` : ''}`);
+  }
+
+  const lists = summary
+    ? [
+        { heading: 'Key Points', items: summary.keyPoints },
+        { heading: 'Action Items', items: summary.actionItems },
+        { heading: 'Decisions', items: summary.decisions },
+      ].filter((list) => list.items.length > 0)
+    : [];
+
+  return {
+    title: session.title,
+    details,
+    summary: summary?.summary,
+    lists,
+    turns: toTurns(timeline).map((turn) => ({ ...turn, clock: formatClock(turn.startMs) })),
+  };
+}
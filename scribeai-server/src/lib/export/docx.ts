@@ -0,0 +1,50 @@
+/**
+ * Word (.docx) export
+ */
+
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from 'docx';
+import { buildOutline } from './document';
+import type { ExportFormat } from './types';
+
+export const docxFormat: ExportFormat = {
+  extension: 'docx',
+  contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+
+  render(data) {
+    const outline = buildOutline(data);
+    const children: Paragraph[] = [
+      new Paragraph({ text: outline.title, heading: HeadingLevel.TITLE }),
+      ...outline.details.map((detail) => new Paragraph({ children: [new TextRun({ text: detail, color: '666666' })] })),
+    ];
+
+    if (outline.summary) {
+      children.push(
+        new Paragraph({ text: 'Summary', heading: HeadingLevel.HEADING_1 }),
+        new Paragraph(outline.summary)
+      );
+    }
+
+    outline.lists.forEach(({ heading, items }) => {
+      children.push(
+        new Paragraph({ text: heading, heading: HeadingLevel.HEADING_2 }),
+        ...items.map((item) => new Paragraph({ text: item, bullet: { level: 0 } }))
+      );
+    });
+
+    children.push(new Paragraph({ text: 'Transcript', heading: HeadingLevel.HEADING_1 }));
+    outline.turns.forEach((turn) => {
+      children.push(
+        new Paragraph({
+          spacing: { after: 120 },
+          children: [
+            new TextRun({ text: `${turn.clock}  `, color: '888888' }),
+            ...(turn.speaker ? [new TextRun({ text: `${turn.speaker}: `, bold: true })] : []),
+            new TextRun(turn.text),
+          ],
+        })
+      );
+    });
+
+    return Packer.toBuffer(new Document({ title: outline.title, sections: [{ children }] }));
+  },
+};
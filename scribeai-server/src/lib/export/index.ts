@@ -0,0 +1,79 @@
+/**
+ * Session exports
+ * Loads a finished session and renders it as subtitles, a document or a JSON bundle
+ */
+
+import { fetchAllRows, supabase, Session, Transcript, TranscriptChunk, TranscriptSegmentRow } from '../supabase';
+import { applySpeakerNames } from '../speakers';
+import { fromStoredSummary } from '../summarization';
+import { buildTimeline } from './timeline';
+import { srtFormat, vttFormat } from './subtitles';
+import { markdownFormat } from './markdown';
+import { docxFormat } from './docx';
+import { pdfFormat } from './pdf';
+import { jsonFormat } from './json';
+import type { ExportData, ExportFormat } from './types';
+
+export * from './types';
+
+export const EXPORT_FORMATS = {
+  srt: srtFormat,
+  vtt: vttFormat,
+  md: markdownFormat,
+  docx: docxFormat,
+  pdf: pdfFormat,
+  json: jsonFormat,
+} satisfies Record<string, ExportFormat>;
+
+export type ExportFormatName = keyof typeof EXPORT_FORMATS;
+
+/**
+ * Load a session's chunks and segments and derive the shared export views
+ */
+export async function loadExportData(session: Session, transcript: Transcript): Promise<ExportData> {
+  const [chunks, segments] = await Promise.all([
+    fetchAllRows<TranscriptChunk>((from, to) =>
+      supabase
+        .from('transcript_chunks')
+        .select('*')
+        .eq('session_id', session.id)
+        .order('chunk_index', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAllRows<TranscriptSegmentRow>((from, to) =>
+      supabase
+        .from('transcript_segments')
+        .select('*')
+        .eq('session_id', session.id)
+        .order('chunk_index', { ascending: true })
+        .order('segment_index', { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+
+  const names = transcript.speaker_names ?? {};
+  const summary = fromStoredSummary(transcript.summary);
+
+  return {
+    session,
+    transcript,
+    chunks,
+    segments,
+    summary: summary && {
+      summary: applySpeakerNames(summary.summary, names),
+      keyPoints: summary.keyPoints.map((point) => applySpeakerNames(point, names)),
+      actionItems: summary.actionItems.map((item) => applySpeakerNames(item, names)),
+      decisions: summary.decisions.map((decision) => applySpeakerNames(decision, names)),
+    },
+    fullText: applySpeakerNames(transcript.full_text, names),
+    timeline: buildTimeline(chunks, segments, names),
+  };
+}
+
+/**
+ * Render export data in a format
+ */
+export async function renderExport(format: ExportFormatName, data: ExportData): Promise<Buffer> {
+  const output = await EXPORT_FORMATS[format].render(data);
+  return typeof output === 'string' ? Buffer.from(output, 'utf8') : output;
+}
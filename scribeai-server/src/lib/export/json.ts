@@ -0,0 +1,31 @@
+/**
+ * JSON export
+ * Full-fidelity bundle: the stored rows as-is, plus the summary and timeline with names applied
+ */
+
+import type { ExportFormat } from './types';
+
+// Bumped when the bundle's shape changes
+export const EXPORT_BUNDLE_VERSION = 1;
+
+export const jsonFormat: ExportFormat = {
+  extension: 'json',
+  contentType: 'application/json; charset=utf-8',
+
+  render({ session, transcript, chunks, segments, summary, fullText, timeline }) {
+    return JSON.stringify(
+      {
+        format: 'scribeai-session',
+        version: EXPORT_BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        session,
+        transcript,
+        chunks,
+        segments,
+        resolved: { summary, fullText, timeline },
+      },
+      null,
+      2
+    );
+  },
+};
@@ -0,0 +1,32 @@
+/**
+ * Markdown export
+ */
+
+import { buildOutline } from './document';
+import type { ExportFormat } from './types';
+
+export const markdownFormat: ExportFormat = {
+  extension: 'md',
+  contentType: 'text/markdown; charset=utf-8',
+
+  render(data) {
+    const outline = buildOutline(data);
+    const lines = [`# ${outline.title}`, '', ...outline.details.map((detail) => `- ${detail}`), ''];
+
+    if (outline.summary) {
+      lines.push('## Summary', '', outline.summary, '');
+    }
+
+    outline.lists.forEach(({ heading, items }) => {
+      const bullet = heading === 'Action Items' ? '- [ ]' : '-';
+      lines.push(`### ${heading}`, '', ...items.map((item) => `${bullet} ${item}`), '');
+    });
+
+    lines.push('## Transcript', '');
+    outline.turns.forEach((turn) => {
+      lines.push(turn.speaker ? `**${turn.speaker}** (${turn.clock}): ${turn.text}` : `(${turn.clock}) ${turn.text}`, '');
+    });
+
+    return lines.join('\n');
+  },
+};
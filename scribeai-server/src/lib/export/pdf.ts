@@ -0,0 +1,64 @@
+/**
+ * PDF export
+ * Text is set in embedded TrueType fonts; pdfkit's built-in fonts only cover WinAnsi
+ */
+
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { config } from '../config';
+import { buildOutline } from './document';
+import type { ExportFormat } from './types';
+
+const BUNDLED_FONT_DIR = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+
+const BODY_FONT = 'body';
+const BOLD_FONT = 'bold';
+const bodyFontPath = config.pdfFontPath ?? path.join(BUNDLED_FONT_DIR, 'DejaVuSans.ttf');
+const boldFontPath = config.pdfBoldFontPath ?? config.pdfFontPath ?? path.join(BUNDLED_FONT_DIR, 'DejaVuSans-Bold.ttf');
+
+export const pdfFormat: ExportFormat = {
+  extension: 'pdf',
+  contentType: 'application/pdf',
+
+  render(data) {
+    const outline = buildOutline(data);
+    const doc = new PDFDocument({ margin: 56, info: { Title: outline.title } });
+    doc.registerFont(BODY_FONT, bodyFontPath);
+    doc.registerFont(BOLD_FONT, boldFontPath);
+
+    const done = new Promise<Buffer>((resolve, reject) => {
+      const parts: Buffer[] = [];
+      doc.on('data', (part: Buffer) => parts.push(part));
+      doc.on('end', () => resolve(Buffer.concat(parts)));
+      doc.on('error', reject);
+    });
+
+    doc.font(BOLD_FONT).fontSize(20).text(outline.title);
+    doc.moveDown(0.5).font(BODY_FONT).fontSize(10).fillColor('#666666');
+    outline.details.forEach((detail) => doc.text(detail));
+    doc.fillColor('black');
+
+    if (outline.summary) {
+      doc.moveDown().font(BOLD_FONT).fontSize(14).text('Summary');
+      doc.moveDown(0.3).font(BODY_FONT).fontSize(11).text(outline.summary);
+    }
+
+    outline.lists.forEach(({ heading, items }) => {
+      doc.moveDown().font(BOLD_FONT).fontSize(12).text(heading);
+      doc.moveDown(0.3).font(BODY_FONT).fontSize(11).list(items, { bulletRadius: 2 });
+    });
+
+    doc.moveDown().font(BOLD_FONT).fontSize(14).text('Transcript');
+    doc.moveDown(0.3).fontSize(11);
+    outline.turns.forEach((turn) => {
+      doc.font(BODY_FONT).fillColor('#888888').text(`${turn.clock}  `, { continued: true }).fillColor('black');
+      if (turn.speaker) {
+        doc.font(BOLD_FONT).text(`${turn.speaker}: `, { continued: true });
+      }
+      doc.font(BODY_FONT).text(turn.text).moveDown(0.4);
+    });
+
+    doc.end();
+    return done;
+  },
+};
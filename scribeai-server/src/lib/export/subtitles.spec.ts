@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { srtFormat, vttFormat } from './subtitles';
+import type { ExportData, TimelineEntry } from './types';
+
+function exportData(timeline: TimelineEntry[]): ExportData {
+  return { timeline } as ExportData; // Subtitles only read the timeline
+}
+
+const timeline: TimelineEntry[] = [
+  { speaker: 'Priya', text: 'Welcome <everyone> & hi', startMs: 1500, endMs: 4000 },
+  { text: 'Untitled speaker', startMs: 3723004, endMs: 3725000 },
+];
+
+describe('srtFormat', () => {
+  it('numbers cues and uses comma milliseconds', () => {
+    expect(srtFormat.render(exportData(timeline))).toBe(
+      '1\n00:00:01,500 --> 00:00:04,000\nPriya: Welcome <everyone> & hi\n\n' +
+        '2\n01:02:03,004 --> 01:02:05,000\nUntitled speaker\n'
+    );
+  });
+});
+
+describe('vttFormat', () => {
+  it('writes a header, voice spans and escaped text', () => {
+    expect(vttFormat.render(exportData(timeline))).toBe(
+      'WEBVTT\n\n' +
+        '00:00:01.500 --> 00:00:04.000\n<v Priya>Welcome &lt;everyone&gt; &amp; hi\n\n' +
+        '01:02:03.004 --> 01:02:05.000\nUntitled speaker\n'
+    );
+  });
+});
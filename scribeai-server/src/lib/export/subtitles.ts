@@ -0,0 +1,43 @@
+/**
+ * Subtitle exports: SubRip (.srt) and WebVTT (.vtt)
+ * One cue per timeline entry, with the speaker's name
+ */
+
+import { formatCueTime } from './timeline';
+import type { ExportFormat } from './types';
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export const srtFormat: ExportFormat = {
+  extension: 'srt',
+  contentType: 'application/x-subrip; charset=utf-8',
+
+  render({ timeline }) {
+    return timeline
+      .map((entry, index) =>
+        [
+          String(index + 1),
+          `${formatCueTime(entry.startMs, ',')} --> ${formatCueTime(entry.endMs, ',')}`,
+          entry.speaker ? `${entry.speaker}: ${entry.text}` : entry.text,
+        ].join('\n')
+      )
+      .join('\n\n') + '\n';
+  },
+};
+
+export const vttFormat: ExportFormat = {
+  extension: 'vtt',
+  contentType: 'text/vtt; charset=utf-8',
+
+  render({ timeline }) {
+    const cues = timeline.map((entry) =>
+      [
+        `${formatCueTime(entry.startMs, '.')} --> ${formatCueTime(entry.endMs, '.')}`,
+        entry.speaker ? `<v ${escapeVtt(entry.speaker)}>${escapeVtt(entry.text)}` : escapeVtt(entry.text),
+      ].join('\n')
+    );
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+  },
+};
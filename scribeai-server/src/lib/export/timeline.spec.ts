@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { buildTimeline, toTurns } from './timeline';
+import type { TranscriptChunk, TranscriptSegmentRow } from '../supabase';
+
+function chunk(chunkIndex: number, text: string, mediaStartMs: number | null = null): TranscriptChunk {
+  return {
+    chunk_index: chunkIndex,
+    text,
+    media_start_ms: mediaStartMs,
+    media_end_ms: mediaStartMs === null ? null : mediaStartMs + 30000,
+  } as TranscriptChunk;
+}
+
+function segmentRow(chunkIndex: number, speaker: string, text: string, startMs: number, endMs: number) {
+  return { chunk_index: chunkIndex, speaker, text, start_ms: startMs, end_ms: endMs } as TranscriptSegmentRow;
+}
+
+describe('buildTimeline', () => {
+  it('offsets segments by their chunk and applies speaker names', () => {
+    const timeline = buildTimeline(
+      [chunk(0, 'ignored', 0), chunk(1, 'ignored', 28000)],
+      [segmentRow(0, 'Speaker 1', 'Hello.', 500, 1500), segmentRow(1, 'Speaker 2', 'Hi.', 1000, 2000)],
+      { 'Speaker 2': 'Sam' }
+    );
+
+    expect(timeline).toEqual([
+      { speaker: 'Speaker 1', text: 'Hello.', startMs: 500, endMs: 1500 },
+      { speaker: 'Sam', text: 'Hi.', startMs: 29000, endMs: 30000 },
+    ]);
+  });
+
+  it('keeps the text of chunks that have no segments', () => {
+    const timeline = buildTimeline(
+      [chunk(0, 'Speaker 1: Diarized.'), chunk(1, 'Speaker 1: Not diarized.'), chunk(2, '  ')],
+      [segmentRow(0, 'Speaker 1', 'Diarized.', 0, 1000)],
+      { 'Speaker 1': 'Priya' }
+    );
+
+    expect(timeline).toEqual([
+      { speaker: 'Priya', text: 'Diarized.', startMs: 0, endMs: 1000 },
+      { text: 'Priya: Not diarized.', startMs: 30000, endMs: 60000 },
+    ]);
+  });
+
+  it('gives zero-length entries a reading-time duration after the previous entry', () => {
+    const timeline = buildTimeline(
+      [chunk(0, '')],
+      [segmentRow(0, 'A', 'one two three four five', 0, 0), segmentRow(0, 'B', 'ok', 0, 0)],
+      {}
+    );
+
+    expect(timeline.map(({ startMs, endMs }) => [startMs, endMs])).toEqual([[0, 2000], [2000, 3000]]);
+  });
+});
+
+describe('toTurns', () => {
+  it('merges consecutive entries by the same speaker', () => {
+    expect(
+      toTurns([
+        { speaker: 'A', text: 'One.', startMs: 0, endMs: 1000 },
+        { speaker: 'A', text: 'Two.', startMs: 1000, endMs: 2000 },
+        { speaker: 'B', text: 'Three.', startMs: 2000, endMs: 3000 },
+      ])
+    ).toEqual([
+      { speaker: 'A', text: 'One. Two.', startMs: 0, endMs: 2000 },
+      { speaker: 'B', text: 'Three.', startMs: 2000, endMs: 3000 },
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Export timeline helpers
+ * Places segments on the session's timeline and groups them into speaker turns
+ */
+
+import { chunkMediaStart, legacyChunkSpan } from '../mediaTimeline';
+import { applySpeakerNames, SpeakerNames } from '../speakers';
+import type { TranscriptChunk, TranscriptSegmentRow } from '../supabase';
+import type { TimelineEntry } from './types';
+
+// Reading pace used to give untimed text (e.g. imported .txt) a plausible cue length
+const MS_PER_WORD = 400;
+const MIN_CUE_MS = 1000;
+
+/**
+ * Segments in order on the session timeline; chunks without diarized segments contribute their text
+ * Zero-length entries are given a reading-time duration and placed after the previous entry
+ */
+export function buildTimeline(
+  chunks: TranscriptChunk[],
+  segments: TranscriptSegmentRow[],
+  names: SpeakerNames
+): TimelineEntry[] {
+  const chunksByIndex = new Map(chunks.map((chunk) => [chunk.chunk_index, chunk]));
+  const segmentsByChunk = new Map<number, TranscriptSegmentRow[]>();
+  segments.forEach((segment) => {
+    const chunkSegments = segmentsByChunk.get(segment.chunk_index) ?? [];
+    chunkSegments.push(segment);
+    segmentsByChunk.set(segment.chunk_index, chunkSegments);
+  });
+
+  const chunkIndices = [...new Set([...chunksByIndex.keys(), ...segmentsByChunk.keys()])].sort((a, b) => a - b);
+
+  const entries = chunkIndices.flatMap((chunkIndex): TimelineEntry[] => {
+    const chunk = chunksByIndex.get(chunkIndex);
+    const chunkSegments = segmentsByChunk.get(chunkIndex);
+
+    if (chunkSegments) {
+      const offset = chunk ? chunkMediaStart(chunk) : legacyChunkSpan(chunkIndex).startMs;
+      return chunkSegments.map((segment) => ({
+        speaker: segment.speaker ? names[segment.speaker]?.trim() || segment.speaker : undefined,
+        text: segment.text,
+        startMs: offset + segment.start_ms,
+        endMs: offset + segment.end_ms,
+      }));
+    }
+
+    if (!chunk || !chunk.text.trim()) {
+      return [];
+    }
+
+    return [{
+      text: applySpeakerNames(chunk.text, names),
+      startMs: chunkMediaStart(chunk),
+      endMs: chunk.media_end_ms ?? legacyChunkSpan(chunkIndex).endMs,
+    }];
+  });
+
+  let previousEnd = 0;
+  return entries.map((entry) => {
+    if (entry.endMs > entry.startMs) {
+      previousEnd = entry.endMs;
+      return entry;
+    }
+
+    const startMs = Math.max(entry.startMs, previousEnd);
+    const words = entry.text.split(/\s+/).filter(Boolean).length;
+    previousEnd = startMs + Math.max(MIN_CUE_MS, words * MS_PER_WORD);
+    return { ...entry, startMs, endMs: previousEnd };
+  });
+}
+
+/**
+ * Merge consecutive entries by the same speaker into turns
+ */
+export function toTurns(timeline: TimelineEntry[]): TimelineEntry[] {
+  return timeline.reduce<TimelineEntry[]>((turns, entry) => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === entry.speaker) {
+      last.text = `${last.text} ${entry.text}`;
+      last.endMs = entry.endMs;
+    } else {
+      turns.push({ ...entry });
+    }
+    return turns;
+  }, []);
+}
+
+/**
+ * `hh:mm:ss` plus a millisecond part joined with `separator` (`,` for SRT, `.` for WebVTT)
+ */
+export function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const millis = Math.floor(ms % 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+/**
+ * Short clock for documents: `m:ss`, or `h:mm:ss` past the hour
+ */
+export function formatClock(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
@@ -0,0 +1,36 @@
+/**
+ * Export contract
+ * Every export format renders the same loaded session data
+ */
+
+import type { Session, Transcript, TranscriptChunk, TranscriptSegmentRow } from '../supabase';
+import type { SummaryData } from '../summarization';
+
+/**
+ * A stretch of speech on the session's timeline, with the speaker's display name
+ */
+export interface TimelineEntry {
+  speaker?: string;
+  text: string;
+  startMs: number; // Offset from the start of the session
+  endMs: number;
+}
+
+/**
+ * Everything stored for a session, plus the derived views the formats share
+ */
+export interface ExportData {
+  session: Session;
+  transcript: Transcript;
+  chunks: TranscriptChunk[];
+  segments: TranscriptSegmentRow[];
+  summary: SummaryData | null; // Speaker names applied
+  fullText: string; // Speaker names applied
+  timeline: TimelineEntry[];
+}
+
+export interface ExportFormat {
+  readonly extension: string;
+  readonly contentType: string;
+  render(data: ExportData): Promise<Buffer> | Buffer | string;
+}
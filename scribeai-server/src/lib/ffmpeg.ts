@@ -0,0 +1,101 @@
+/**
+ * ffmpeg helpers for recordings
+ * Runs the local ffmpeg/ffprobe binaries to measure a file, split its audio into chunks, or
+ * remux it for playback
+ */
+
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from './config';
+
+// Chunks are Ogg/Opus: every file carries its own header, so each decodes on its own
+export const CHUNK_MIME_TYPE = 'audio/ogg';
+
+/**
+ * Run a binary to completion
+ * @returns stdout; rejects with the end of stderr on a non-zero exit
+ */
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (data) => (stdout += data));
+    child.stderr.on('data', (data) => (stderr = (stderr + data).slice(-2000)));
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'ENOENT' ? new Error(`${command} not found; install ffmpeg or set its path`) : error);
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${path.basename(command)} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
+
+/**
+ * Duration of a media file in milliseconds
+ */
+export async function probeDuration(file: string): Promise<number> {
+  const output = await run(config.ffprobePath, [
+    '-v', 'error',
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    file,
+  ]);
+
+  const seconds = Number.parseFloat(output.trim());
+  if (Number.isNaN(seconds)) {
+    throw new Error(`Could not read the duration of ${path.basename(file)}`);
+  }
+
+  return Math.round(seconds * 1000);
+}
+
+/**
+ * Split a file's first audio track into fixed-length mono Opus chunks
+ * Video tracks are dropped
+ * @returns Chunk file paths in playback order
+ */
+export async function splitAudio(input: string, outputDir: string, chunkSeconds: number): Promise<string[]> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  await run(config.ffmpegPath, [
+    '-hide_banner',
+    '-loglevel', 'error',
+    '-i', input,
+    '-map', '0:a:0',
+    '-vn',
+    '-ac', '1',
+    '-c:a', 'libopus',
+    '-b:a', '48k',
+    '-f', 'segment',
+    '-segment_time', String(chunkSeconds),
+    '-reset_timestamps', '1',
+    path.join(outputDir, 'chunk-%05d.ogg'),
+  ]);
+
+  const files = (await fs.readdir(outputDir)).filter((file) => file.endsWith('.ogg')).sort();
+  return files.map((file) => path.join(outputDir, file));
+}
+
+/**
+ * Copy a recording's streams into a new file of the same container without re-encoding
+ * MediaRecorder output has no duration or seek index (WebM Cues, MP4 moov); the muxer writes both
+ */
+export async function remuxAudio(input: string, output: string): Promise<void> {
+  await run(config.ffmpegPath, [
+    '-hide_banner',
+    '-loglevel', 'error',
+    '-y',
+    '-i', input,
+    '-c', 'copy',
+    output,
+  ]);
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { checkMediaSpan, chunkMediaStart, legacyChunkSpan, MEDIA_CLOCK_TOLERANCE_MS } from './mediaTimeline';
+
+describe('checkMediaSpan', () => {
+  it('accepts spans within what the server has seen, rounded to whole milliseconds', () => {
+    expect(checkMediaSpan(1000.4, 30999.6, 31000)).toEqual({ startMs: 1000, endMs: 31000 });
+  });
+
+  it('allows the recorder clock to run slightly ahead', () => {
+    expect(checkMediaSpan(0, 30000 + MEDIA_CLOCK_TOLERANCE_MS, 30000)).not.toBeNull();
+    expect(checkMediaSpan(0, 30001 + MEDIA_CLOCK_TOLERANCE_MS, 30000)).toBeNull();
+  });
+
+  it('rejects missing, non-finite, negative and backwards spans', () => {
+    expect(checkMediaSpan(undefined, 1000, 5000)).toBeNull();
+    expect(checkMediaSpan('0', 1000, 5000)).toBeNull();
+    expect(checkMediaSpan(0, Infinity, 5000)).toBeNull();
+    expect(checkMediaSpan(-1, 1000, 5000)).toBeNull();
+    expect(checkMediaSpan(2000, 1000, 5000)).toBeNull();
+  });
+});
+
+describe('chunkMediaStart', () => {
+  it('prefers the stored offset and falls back to fixed slices', () => {
+    expect(chunkMediaStart({ chunk_index: 3, media_start_ms: 12345 })).toBe(12345);
+    expect(chunkMediaStart({ chunk_index: 3, media_start_ms: null })).toBe(legacyChunkSpan(3).startMs);
+    expect(legacyChunkSpan(3)).toEqual({ startMs: 90000, endMs: 120000 });
+  });
+});
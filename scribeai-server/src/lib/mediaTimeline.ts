@@ -0,0 +1,52 @@
+/**
+ * Media timeline
+ * Chunks are placed by their offset into the recording with paused time removed, as measured by
+ * the recorder, so segment times can be shown as "00:14:32 into the meeting"
+ */
+
+import { CHUNK_DURATION_MS } from './transcript';
+
+export interface MediaSpan {
+  startMs: number; // Offset from the start of the recording
+  endMs: number;
+}
+
+// How far the recorder's clock may run ahead of the server's (start-session latency, timer drift)
+export const MEDIA_CLOCK_TOLERANCE_MS = 5000;
+
+/**
+ * Span assumed for a chunk without media offsets (rows from before they were recorded):
+ * back-to-back slices of CHUNK_DURATION_MS
+ */
+export function legacyChunkSpan(chunkIndex: number): MediaSpan {
+  return { startMs: chunkIndex * CHUNK_DURATION_MS, endMs: (chunkIndex + 1) * CHUNK_DURATION_MS };
+}
+
+/**
+ * Media start of a stored chunk
+ */
+export function chunkMediaStart(chunk: { chunk_index: number; media_start_ms: number | null }): number {
+  return chunk.media_start_ms ?? legacyChunkSpan(chunk.chunk_index).startMs;
+}
+
+/**
+ * Check a span reported by the recorder against what the server has seen of the recording
+ * @param recordedMs - Recording time that had elapsed by the server's clock when the chunk arrived
+ * @returns The span rounded to whole milliseconds, or null when it is missing or implausible
+ */
+export function checkMediaSpan(startMs: unknown, endMs: unknown, recordedMs: number): MediaSpan | null {
+  if (typeof startMs !== 'number' || typeof endMs !== 'number') {
+    return null;
+  }
+
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs) || startMs < 0 || endMs < startMs) {
+    return null;
+  }
+
+  // A chunk cannot end later in the recording than the time that has passed since it started
+  if (endMs > recordedMs + MEDIA_CLOCK_TOLERANCE_MS) {
+    return null;
+  }
+
+  return { startMs: Math.round(startMs), endMs: Math.round(endMs) };
+}
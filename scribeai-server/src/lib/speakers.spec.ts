@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { applySpeakerNames, reconcileSpeakers, speakerContext } from './speakers';
+import type { TranscriptSegment } from './transcription';
+
+function segment(speaker: string, text: string): TranscriptSegment {
+  return { speaker, text, startMs: 0, endMs: 0 };
+}
+
+function speakersOf(chunks: Map<number, TranscriptSegment[]>, index: number): (string | undefined)[] {
+  return chunks.get(index)!.map((s) => s.speaker);
+}
+
+describe('reconcileSpeakers', () => {
+  it('matches a speaker cut off by the chunk boundary and swaps the freed label', () => {
+    const chunks = new Map([
+      [0, [segment('Speaker 1', "Let's start."), segment('Speaker 2', 'The numbers for this quarter')]],
+      [1, [segment('Speaker 1', 'look better than expected.'), segment('Speaker 2', 'Great to hear.')]],
+    ]);
+
+    const reconciled = reconcileSpeakers(chunks, new Set());
+
+    expect(speakersOf(reconciled, 0)).toEqual(['Speaker 1', 'Speaker 2']);
+    expect(speakersOf(reconciled, 1)).toEqual(['Speaker 2', 'Speaker 1']);
+  });
+
+  it('keeps local labels when the boundary falls between sentences', () => {
+    const chunks = new Map([
+      [0, [segment('Speaker 1', 'Any questions?')]],
+      [1, [segment('Speaker 2', 'Yes, one.'), segment('Speaker 1', 'Go ahead.')]],
+    ]);
+
+    const reconciled = reconcileSpeakers(chunks, new Set());
+
+    expect(speakersOf(reconciled, 1)).toEqual(['Speaker 2', 'Speaker 1']);
+  });
+
+  it('trusts chunks diarized with speaker context', () => {
+    const chunks = new Map([
+      [0, [segment('Speaker 1', 'We should ship')]],
+      [1, [segment('Speaker 2', 'on Friday, agreed.')]],
+    ]);
+
+    // Without context the lower-case continuation would be merged into Speaker 1
+    expect(speakersOf(reconcileSpeakers(chunks, new Set()), 1)).toEqual(['Speaker 1']);
+    expect(speakersOf(reconcileSpeakers(chunks, new Set([1])), 1)).toEqual(['Speaker 2']);
+  });
+
+  it('renumbers generic labels in order of appearance and leaves names alone', () => {
+    const chunks = new Map([
+      [1, [segment('Speaker 5', 'Second chunk.'), segment('Speaker 7', 'Right.')]],
+      [0, [segment('Priya', 'Hello.'), segment('Speaker 3', 'Hi.')]],
+    ]);
+
+    const reconciled = reconcileSpeakers(chunks, new Set([0, 1]));
+
+    expect(speakersOf(reconciled, 0)).toEqual(['Priya', 'Speaker 1']);
+    expect(speakersOf(reconciled, 1)).toEqual(['Speaker 2', 'Speaker 3']);
+  });
+
+  it('does not modify its input', () => {
+    const chunks = new Map([[0, [segment('Speaker 4', 'Hello.')]]]);
+    reconcileSpeakers(chunks, new Set());
+    expect(chunks.get(0)![0].speaker).toBe('Speaker 4');
+  });
+});
+
+describe('speakerContext', () => {
+  const chunks = new Map([
+    [0, [segment('Speaker 1', 'Welcome.'), segment('Speaker 2', 'Thanks.')]],
+    [1, [segment('Speaker 1', 'First item.')]],
+  ]);
+
+  it('has no context before any chunk is diarized', () => {
+    expect(speakerContext(chunks, new Set(), 0)).toBeUndefined();
+  });
+
+  it('lists earlier speakers and the tail of the previous chunk', () => {
+    expect(speakerContext(chunks, new Set(), 2)).toEqual({
+      speakers: ['Speaker 1', 'Speaker 2'],
+      previousText: 'Speaker 1: First item.',
+    });
+    expect(speakerContext(chunks, new Set(), 2, 5)?.previousText).toBe('item.');
+  });
+});
+
+describe('applySpeakerNames', () => {
+  it('replaces bare and bracketed labels, preferring the longest label', () => {
+    const names = { 'Speaker 1': 'Priya', 'Speaker 12': 'Sam', 'Speaker 2': '  ' };
+    expect(applySpeakerNames('[Speaker 1]: hi\nSpeaker 12: hey\nSpeaker 2: yo', names)).toBe(
+      'Priya: hi\nSam: hey\nSpeaker 2: yo'
+    );
+  });
+});
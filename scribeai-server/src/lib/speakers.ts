@@ -0,0 +1,190 @@
+/**
+ * Cross-chunk speaker reconciliation
+ * Each chunk is diarized on its own, so its labels are only local. Chunks transcribed with the
+ * session's earlier speakers as context already share labels; the rest are matched after the fact
+ * by conversational continuity. Generic labels are then renumbered in order of first appearance.
+ */
+
+import type { TranscriptSegment, TranscriptionContext } from './transcription';
+
+const GENERIC_LABEL = /^Speaker \d+$/;
+
+// Text that ends a sentence, optionally followed by closing quotes or brackets
+const SENTENCE_END = /[.!?…]["')\]]*$/;
+
+/**
+ * Whether `next` reads as the same speaker carrying on from `previous` across a chunk boundary
+ */
+function continuesAcrossBoundary(previous: TranscriptSegment, next: TranscriptSegment): boolean {
+  return !SENTENCE_END.test(previous.text.trim()) || /^[a-z]/.test(next.text.trim());
+}
+
+function distinctSpeakers(segments: TranscriptSegment[]): string[] {
+  return [...new Set(segments.map((segment) => segment.speaker).filter((s): s is string => !!s))];
+}
+
+function unusedLabel(known: Set<string>, used: Set<string>): string {
+  let n = 1;
+  while (known.has(`Speaker ${n}`) || used.has(`Speaker ${n}`)) n++;
+  return `Speaker ${n}`;
+}
+
+/**
+ * Map one context-free chunk's local labels onto session-wide labels
+ */
+function matchChunkSpeakers(
+  segments: TranscriptSegment[],
+  previous: TranscriptSegment | undefined,
+  known: Set<string>
+): Map<string, string> {
+  const mapping = new Map<string, string>();
+  const used = new Set<string>();
+  const first = segments[0];
+
+  // A speaker cut off by the chunk boundary is the same person on both sides
+  if (previous?.speaker && first?.speaker && continuesAcrossBoundary(previous, first)) {
+    mapping.set(first.speaker, previous.speaker);
+    used.add(previous.speaker);
+  }
+
+  for (const local of distinctSpeakers(segments)) {
+    if (mapping.has(local)) continue;
+
+    let target = local;
+    if (used.has(target)) {
+      // Take the label freed up by the continuity match, if any, otherwise a brand-new one
+      const freed = first?.speaker && mapping.get(first.speaker) !== first.speaker ? first.speaker : undefined;
+      target = freed && !used.has(freed) ? freed : unusedLabel(known, used);
+    }
+
+    mapping.set(local, target);
+    used.add(target);
+  }
+
+  return mapping;
+}
+
+/**
+ * Map every chunk's labels into one session-wide label space, chunk by chunk
+ */
+function matchSpeakers(
+  segmentsByChunk: Map<number, TranscriptSegment[]>,
+  contextualChunks: Set<number>
+): Map<number, TranscriptSegment[]> {
+  const indices = [...segmentsByChunk.keys()].sort((a, b) => a - b);
+  const matched = new Map<number, TranscriptSegment[]>();
+  const known = new Set<string>();
+
+  indices.forEach((index) => {
+    const segments = segmentsByChunk.get(index)!;
+    const previousChunk = matched.get(index - 1);
+    const previous = previousChunk?.[previousChunk.length - 1];
+
+    const mapping = contextualChunks.has(index)
+      ? new Map(distinctSpeakers(segments).map((speaker) => [speaker, speaker]))
+      : matchChunkSpeakers(segments, previous, known);
+
+    const relabelled = segments.map((segment) => ({
+      ...segment,
+      speaker: segment.speaker ? mapping.get(segment.speaker) : undefined,
+    }));
+
+    distinctSpeakers(relabelled).forEach((speaker) => known.add(speaker));
+    matched.set(index, relabelled);
+  });
+
+  return matched;
+}
+
+/**
+ * Make speaker labels consistent across a whole session
+ * @param segmentsByChunk - Diarized segments keyed by chunk index
+ * @param contextualChunks - Chunks diarized with `speakerContext`, whose labels are already session-wide
+ * @returns Segments with reconciled labels, keyed by chunk index
+ */
+export function reconcileSpeakers(
+  segmentsByChunk: Map<number, TranscriptSegment[]>,
+  contextualChunks: Set<number>
+): Map<number, TranscriptSegment[]> {
+  const matched = matchSpeakers(segmentsByChunk, contextualChunks);
+
+  // Renumber generic labels so the session reads Speaker 1, 2, 3... in order of appearance
+  const renumbered = new Map<string, string>();
+  const indices = [...matched.keys()].sort((a, b) => a - b);
+  indices.forEach((index) => {
+    distinctSpeakers(matched.get(index)!)
+      .filter((speaker) => GENERIC_LABEL.test(speaker) && !renumbered.has(speaker))
+      .forEach((speaker) => renumbered.set(speaker, `Speaker ${renumbered.size + 1}`));
+  });
+
+  const reconciled = new Map<number, TranscriptSegment[]>();
+  matched.forEach((segments, index) => {
+    reconciled.set(
+      index,
+      segments.map((segment) => ({
+        ...segment,
+        speaker: segment.speaker ? renumbered.get(segment.speaker) ?? segment.speaker : undefined,
+      }))
+    );
+  });
+
+  return reconciled;
+}
+
+/**
+ * Context for diarizing a chunk: the session's speakers so far and the end of the previous chunk
+ * @returns undefined when no earlier chunk has been diarized yet
+ */
+export function speakerContext(
+  segmentsByChunk: Map<number, TranscriptSegment[]>,
+  contextualChunks: Set<number>,
+  chunkIndex: number,
+  tailLength = 400
+): TranscriptionContext | undefined {
+  const earlier = new Map(
+    [...segmentsByChunk].filter(([index, segments]) => index < chunkIndex && segments.length > 0)
+  );
+
+  if (earlier.size === 0) {
+    return undefined;
+  }
+
+  // Earlier chunks in the session-wide label space, so this chunk's labels land there too
+  const matched = matchSpeakers(earlier, contextualChunks);
+  const indices = [...matched.keys()].sort((a, b) => a - b);
+
+  const speakers = new Set<string>();
+  indices.forEach((index) => distinctSpeakers(matched.get(index)!).forEach((s) => speakers.add(s)));
+
+  const previousText = matched
+    .get(indices[indices.length - 1])!
+    .map((segment) => (segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text))
+    .join('\n');
+
+  return { speakers: [...speakers], previousText: previousText.slice(-tailLength) };
+}
+
+/**
+ * Display names for diarized labels, e.g. { "Speaker 2": "Priya" }
+ */
+export type SpeakerNames = Record<string, string>;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace speaker labels (bare or bracketed, e.g. "[Speaker 2]") with display names
+ */
+export function applySpeakerNames(text: string, names: SpeakerNames): string {
+  const labels = Object.keys(names)
+    .filter((label) => names[label]?.trim())
+    .sort((a, b) => b.length - a.length); // Longest first so "Speaker 12" wins over "Speaker 1"
+
+  if (labels.length === 0) {
+    return text;
+  }
+
+  const pattern = new RegExp(`\\[?\\b(${labels.map(escapeRegExp).join('|')})\\b\\]?`, 'g');
+  return text.replace(pattern, (_match, label: string) => names[label].trim());
+}
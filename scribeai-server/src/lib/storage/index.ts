@@ -0,0 +1,47 @@
+/**
+ * Storage backend selection
+ * Chooses where finalized session audio is kept (`STORAGE_BACKEND`)
+ */
+
+import { config } from '../config';
+import { createLocalStorage } from './local';
+import { createS3Storage } from './s3';
+import { StorageBackend } from './types';
+
+export * from './types';
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Create the storage backend named in config
+ */
+export function createStorageBackend(name: string = config.storageBackend): StorageBackend {
+  switch (name) {
+    case 'local':
+      return createLocalStorage({ root: config.storageLocalDir });
+    case 's3':
+      if (!config.s3Bucket) {
+        throw new Error('STORAGE_BACKEND=s3 requires S3_BUCKET');
+      }
+      return createS3Storage({
+        bucket: config.s3Bucket,
+        region: config.s3Region,
+        endpoint: config.s3Endpoint,
+        forcePathStyle: config.s3ForcePathStyle,
+        accessKeyId: config.s3AccessKeyId,
+        secretAccessKey: config.s3SecretAccessKey,
+      });
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${name}" (expected local or s3)`);
+  }
+}
+
+/**
+ * The configured storage backend, created on first use
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    storage = createStorageBackend();
+  }
+  return storage;
+}
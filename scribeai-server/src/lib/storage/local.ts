@@ -0,0 +1,62 @@
+/**
+ * Local filesystem storage backend
+ * Objects are files under a root directory; keys map to relative paths
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { StorageBackend } from './types';
+
+export interface LocalStorageOptions {
+  root: string;
+}
+
+export function createLocalStorage(options: LocalStorageOptions): StorageBackend {
+  const root = path.resolve(options.root);
+
+  /**
+   * Resolve a key inside the root, refusing keys that would escape it
+   */
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      const tmpPath = `${filePath}.tmp`;
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await pipeline(body, createWriteStream(tmpPath));
+      await fs.rename(tmpPath, filePath);
+    },
+
+    async head(key) {
+      try {
+        const stats = await fs.stat(resolveKey(key));
+        return { size: stats.size };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async getStream(key, range) {
+      return createReadStream(resolveKey(key), range ? { start: range.start, end: range.end } : {});
+    },
+
+    async delete(key) {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Storage backend contract
+ * Where finalized session audio lives; the rest of the server depends only on this
+ */
+
+import { Readable } from 'stream';
+
+export interface StoredObjectInfo {
+  size: number; // Bytes
+}
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+export interface PutOptions {
+  contentType: string;
+  contentLength: number;
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  put(key: string, body: Readable, options: PutOptions): Promise<void>;
+  /**
+   * @returns null if the object does not exist
+   */
+  head(key: string): Promise<StoredObjectInfo | null>;
+  /**
+   * Stream an object, or a byte range of it
+   */
+  getStream(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,117 @@
+/**
+ * Extractive summarizer
+ * Rule-based and fully offline: picks the most representative sentences by word frequency
+ * and finds action items and decisions by phrasing
+ */
+
+import { Summarizer } from './types';
+
+const VERSION = '1.0.0';
+
+const SUMMARY_SENTENCES = 3;
+const MAX_KEY_POINTS = 5;
+const MAX_ITEMS = 10;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be',
+  'because', 'been', 'before', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing',
+  'for', 'from', 'get', 'got', 'had', 'has', 'have', 'he', 'her', 'here', 'him', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'know', 'like', 'me', 'more', 'my', 'no',
+  'not', 'now', 'of', 'oh', 'ok', 'okay', 'on', 'one', 'or', 'our', 'out', 'over', 'really',
+  'right', 'so', 'some', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they',
+  'think', 'this', 'those', 'to', 'too', 'um', 'uh', 'up', 'us', 'very', 'was', 'we', 'well',
+  'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'yeah',
+  'yes', 'you', 'your',
+]);
+
+const ACTION_PATTERN =
+  /\b(will|i'll|we'll|you'll|going to|need to|needs to|have to|has to|should|must|let's|action item|to-?do|follow up|take care of|assign(ed)?)\b/i;
+
+const DECISION_PATTERN =
+  /\b(decided|decide|decision|agreed|agree on|we'll go with|going with|approved|settled on|final(ized)?|conclusion)\b/i;
+
+/**
+ * Split transcript text into sentences, dropping speaker labels and gap markers
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/\[Chunk \d+ could not be transcribed\]/g, ' ')
+    .replace(/\[?Speaker \d+\]?:?/g, ' ')
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.replace(/\s+/g, ' ').trim())
+    .filter((sentence) => sentence.split(' ').length >= 4);
+}
+
+function tokenize(sentence: string): string[] {
+  return (sentence.toLowerCase().match(/[a-z0-9']+/g) || []).filter(
+    (word) => word.length > 2 && !STOPWORDS.has(word)
+  );
+}
+
+/**
+ * Score sentences by the average corpus frequency of their content words
+ */
+function scoreSentences(sentences: string[]): number[] {
+  const frequencies = new Map<string, number>();
+  sentences.forEach((sentence) => {
+    tokenize(sentence).forEach((word) => {
+      frequencies.set(word, (frequencies.get(word) ?? 0) + 1);
+    });
+  });
+
+  const maxFrequency = Math.max(1, ...frequencies.values());
+
+  return sentences.map((sentence) => {
+    const words = tokenize(sentence);
+    if (words.length === 0) return 0;
+
+    const total = words.reduce((sum, word) => sum + (frequencies.get(word) ?? 0) / maxFrequency, 0);
+    // Dampen the advantage of very long sentences
+    return total / Math.sqrt(words.length);
+  });
+}
+
+/**
+ * Indices of the `count` best-scoring sentences, in transcript order
+ */
+function topSentences(scores: number[], count: number): number[] {
+  return scores
+    .map((score, index) => ({ score, index }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(({ index }) => index)
+    .sort((a, b) => a - b);
+}
+
+function unique(items: string[]): string[] {
+  return [...new Set(items)];
+}
+
+export function createExtractiveSummarizer(): Summarizer {
+  return {
+    name: 'extractive',
+    version: VERSION,
+
+    async summarize(fullTranscript) {
+      const sentences = splitSentences(fullTranscript);
+
+      if (sentences.length === 0) {
+        return {
+          summary: fullTranscript.trim(),
+          keyPoints: [],
+          actionItems: [],
+          decisions: [],
+        };
+      }
+
+      const scores = scoreSentences(sentences);
+
+      return {
+        summary: topSentences(scores, SUMMARY_SENTENCES).map((i) => sentences[i]).join(' '),
+        keyPoints: topSentences(scores, MAX_KEY_POINTS).map((i) => sentences[i]),
+        actionItems: unique(sentences.filter((s) => ACTION_PATTERN.test(s))).slice(0, MAX_ITEMS),
+        decisions: unique(sentences.filter((s) => DECISION_PATTERN.test(s))).slice(0, MAX_ITEMS),
+      };
+    },
+  };
+}
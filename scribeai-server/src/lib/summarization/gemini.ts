@@ -0,0 +1,56 @@
+/**
+ * Gemini summarizer
+ * Uses Gemini's JSON response mode with the summary schema
+ */
+
+import { GoogleGenerativeAI, ResponseSchema, SchemaType } from '@google/generative-ai';
+import { Summarizer } from './types';
+import { buildSummaryPrompt } from './prompt';
+import { generateValidatedSummary } from './schema';
+
+export interface GeminiSummarizerOptions {
+  apiKey: string;
+  model: string;
+}
+
+const stringArray: ResponseSchema = { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } };
+
+// Gemini takes an OpenAPI-style subset of JSON Schema, so this mirrors `summarySchema` by hand
+const RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    summary: { type: SchemaType.STRING },
+    keyPoints: stringArray,
+    actionItems: stringArray,
+    decisions: stringArray,
+  },
+  required: ['summary', 'keyPoints', 'actionItems', 'decisions'],
+};
+
+export function createGeminiSummarizer(options: GeminiSummarizerOptions): Summarizer {
+  const genAI = new GoogleGenerativeAI(options.apiKey);
+  const model = genAI.getGenerativeModel({
+    model: options.model,
+    generationConfig: {
+      responseMimeType: 'application/json',
+      responseSchema: RESPONSE_SCHEMA,
+    },
+  });
+
+  return {
+    name: 'gemini',
+    version: options.model,
+
+    async summarize(fullTranscript) {
+      try {
+        return await generateValidatedSummary(buildSummaryPrompt(fullTranscript), async (prompt) => {
+          const result = await model.generateContent(prompt);
+          return result.response.text();
+        });
+      } catch (error) {
+        console.error('Error generating summary:', error);
+        throw new Error(`Summary generation failed: ${error}`);
+      }
+    },
+  };
+}
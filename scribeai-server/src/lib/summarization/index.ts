@@ -0,0 +1,99 @@
+/**
+ * Summarizer selection
+ * Sessions choose a summarizer by name; `DEFAULT_SUMMARIZER` applies when they don't
+ */
+
+import { config } from '../config';
+import { createGeminiSummarizer } from './gemini';
+import { createExtractiveSummarizer } from './extractive';
+import { createOpenAICompatibleSummarizer } from './openai';
+import { Summarizer, SummaryData } from './types';
+
+export * from './types';
+export {
+  SUMMARY_SCHEMA_VERSION,
+  StoredSummary,
+  SummaryValidationError,
+  fromStoredSummary,
+  toStoredSummary,
+} from './schema';
+
+const summarizers = new Map<string, Summarizer>();
+
+/**
+ * Create every summarizer that is configured in this environment
+ */
+function registerSummarizers() {
+  if (config.geminiApiKey) {
+    summarizers.set('gemini', createGeminiSummarizer({
+      apiKey: config.geminiApiKey,
+      model: config.geminiSummaryModel,
+    }));
+  }
+
+  summarizers.set('extractive', createExtractiveSummarizer());
+
+  if (config.openaiCompatBaseUrl) {
+    summarizers.set('openai', createOpenAICompatibleSummarizer({
+      baseUrl: config.openaiCompatBaseUrl,
+      apiKey: config.openaiCompatApiKey,
+      model: config.openaiCompatModel,
+    }));
+  }
+}
+
+registerSummarizers();
+
+/**
+ * Names of the summarizers available in this environment
+ */
+export function listSummarizers(): { name: string; version: string }[] {
+  return [...summarizers.values()].map(({ name, version }) => ({ name, version }));
+}
+
+/**
+ * Whether a summarizer name can be used
+ */
+export function isSummarizerAvailable(name: string): boolean {
+  return summarizers.has(name);
+}
+
+/**
+ * Name used when a session does not pick a summarizer
+ * Falls back to the offline extractive summarizer if the configured default is unavailable
+ */
+export function defaultSummarizerName(): string {
+  return summarizers.has(config.defaultSummarizer) ? config.defaultSummarizer : 'extractive';
+}
+
+/**
+ * Look up a summarizer by name, or the default
+ */
+export function getSummarizer(name?: string): Summarizer {
+  return summarizers.get(name ?? defaultSummarizerName()) ?? summarizers.get(defaultSummarizerName())!;
+}
+
+/**
+ * Summarize with the named summarizer, falling back to the offline extractive one when it fails
+ * (provider outage, output that still fails validation after repair), so the transcript is always saved
+ * @param sessionId - Session the transcript belongs to, for the log
+ */
+export async function summarizeTranscript(
+  sessionId: string,
+  transcript: string,
+  name?: string
+): Promise<{ summarizer: Summarizer; summaryData: SummaryData }> {
+  const summarizer = getSummarizer(name);
+
+  try {
+    return { summarizer, summaryData: await summarizer.summarize(transcript) };
+  } catch (error) {
+    const fallback = getSummarizer('extractive');
+    if (fallback === summarizer) {
+      throw error;
+    }
+
+    console.error(`Error summarizing ${sessionId} with ${summarizer.name}, using ${fallback.name}:`, error);
+    return { summarizer: fallback, summaryData: await fallback.summarize(transcript) };
+  }
+}
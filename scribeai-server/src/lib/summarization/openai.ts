@@ -0,0 +1,64 @@
+/**
+ * OpenAI-compatible summarizer
+ * Works with any server exposing `/chat/completions` (OpenAI, vLLM, llama.cpp, Ollama, LM Studio, ...)
+ * and requests structured output via `response_format: json_schema`
+ */
+
+import { Summarizer } from './types';
+import { buildSummaryPrompt } from './prompt';
+import { generateValidatedSummary, summaryJsonSchema } from './schema';
+
+export interface OpenAICompatibleSummarizerOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  apiKey?: string;
+  model: string;
+}
+
+export function createOpenAICompatibleSummarizer(
+  options: OpenAICompatibleSummarizerOptions
+): Summarizer {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai',
+    version: options.model,
+
+    async summarize(fullTranscript) {
+      const complete = async (prompt: string) => {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: options.model,
+            temperature: 0.2,
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'meeting_summary', schema: summaryJsonSchema, strict: true },
+            },
+            messages: [{ role: 'user', content: prompt }],
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+        }
+
+        const body = (await response.json()) as {
+          choices?: { message?: { content?: string } }[];
+        };
+
+        return body.choices?.[0]?.message?.content ?? '';
+      };
+
+      try {
+        return await generateValidatedSummary(buildSummaryPrompt(fullTranscript), complete);
+      } catch (error) {
+        console.error('Error generating summary:', error);
+        throw new Error(`Summary generation failed: ${error}`);
+      }
+    },
+  };
+}
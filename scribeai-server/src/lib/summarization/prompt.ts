@@ -0,0 +1,22 @@
+/**
+ * Shared prompt for LLM-backed summarizers
+ */
+
+export const SUMMARY_INSTRUCTIONS = `Analyze this meeting transcript and provide:
+1. A concise summary (2-3 paragraphs)
+2. Key points discussed (bullet points)
+3. Action items identified (with owners if mentioned)
+4. Decisions made
+
+Respond with a JSON object with fields: summary (string), keyPoints (array of strings),
+actionItems (array of strings), decisions (array of strings). Use empty arrays when nothing applies.`;
+
+/**
+ * Build the full summary prompt for a transcript
+ */
+export function buildSummaryPrompt(fullTranscript: string): string {
+  return `${SUMMARY_INSTRUCTIONS}
+
+Transcript:
+${fullTranscript}`;
+}
@@ -0,0 +1,142 @@
+/**
+ * Summary schema and validation
+ * LLM output is checked against the schema and gets one repair round-trip before giving up
+ */
+
+import { z } from 'zod';
+import { SummaryData } from './types';
+
+/**
+ * Version written to `transcripts.summary.schemaVersion`
+ * Rows without one predate the schema (free-form, regex-scraped summaries)
+ */
+export const SUMMARY_SCHEMA_VERSION = 2;
+
+export const summarySchema = z.object({
+  summary: z.string().trim().min(1),
+  keyPoints: z.array(z.string()),
+  actionItems: z.array(z.string()),
+  decisions: z.array(z.string()),
+});
+
+/**
+ * JSON Schema for model structured-output modes
+ */
+export const summaryJsonSchema = z.toJSONSchema(summarySchema);
+
+export interface StoredSummary extends SummaryData {
+  schemaVersion: number;
+}
+
+/**
+ * Raised when model output still does not match the schema after repair
+ */
+export class SummaryValidationError extends Error {
+  readonly output: string; // Last model output, for debugging
+
+  constructor(message: string, output: string) {
+    super(message);
+    this.name = 'SummaryValidationError';
+    this.output = output;
+  }
+}
+
+type ValidationResult = { ok: true; data: SummaryData } | { ok: false; error: string };
+
+/**
+ * Parse and validate raw model output
+ */
+export function validateSummaryOutput(text: string): ValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, error: `Invalid JSON: ${error instanceof Error ? error.message : error}` };
+  }
+
+  const result = summarySchema.safeParse(parsed);
+  if (!result.success) {
+    return { ok: false, error: z.prettifyError(result.error) };
+  }
+
+  return { ok: true, data: result.data };
+}
+
+/**
+ * Prompt asking the model to fix output that failed validation
+ */
+export function buildRepairPrompt(output: string, error: string): string {
+  return `The JSON below was supposed to be a meeting summary matching this JSON Schema:
+${JSON.stringify(summaryJsonSchema)}
+
+It failed validation:
+${error}
+
+Return only the corrected JSON object. Keep the content; fix only the structure.
+
+JSON:
+${output}`;
+}
+
+/**
+ * Run a generation, validate it, and make one repair attempt if needed
+ * @param generate Sends a prompt to the model and returns its raw text
+ */
+export async function generateValidatedSummary(
+  prompt: string,
+  generate: (prompt: string) => Promise<string>
+): Promise<SummaryData> {
+  const output = await generate(prompt);
+  const first = validateSummaryOutput(output);
+  if (first.ok) {
+    return first.data;
+  }
+
+  console.warn(`🔧 Summary failed validation, attempting repair: ${first.error}`);
+
+  const repaired = await generate(buildRepairPrompt(output, first.error));
+  const second = validateSummaryOutput(repaired);
+  if (second.ok) {
+    return second.data;
+  }
+
+  throw new SummaryValidationError(`Summary failed validation after repair: ${second.error}`, repaired);
+}
+
+/**
+ * Wrap a summary for storage in `transcripts.summary`
+ */
+export function toStoredSummary(data: SummaryData): StoredSummary {
+  return { schemaVersion: SUMMARY_SCHEMA_VERSION, ...data };
+}
+
+// Rows written before schemaVersion: any field may be missing
+const legacySummarySchema = z.object({
+  summary: z.string().catch(''),
+  keyPoints: z.array(z.string()).catch([]),
+  actionItems: z.array(z.string()).catch([]),
+  decisions: z.array(z.string()).catch([]),
+});
+
+/**
+ * Read `transcripts.summary` of any schema version, including unversioned JSON-text rows
+ * @returns null when there is no usable summary
+ */
+export function fromStoredSummary(raw: unknown): SummaryData | null {
+  if (raw === null || raw === undefined || raw === '') {
+    return null;
+  }
+
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      // Raw model text saved by the old fallback
+      return { summary: raw, keyPoints: [], actionItems: [], decisions: [] };
+    }
+  }
+
+  const result = legacySummarySchema.safeParse(value);
+  return result.success && result.data.summary ? result.data : null;
+}
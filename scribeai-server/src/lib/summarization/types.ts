@@ -0,0 +1,17 @@
+/**
+ * Summarizer contract
+ * Every summary engine implements this so sessions can pick one independently
+ */
+
+export interface SummaryData {
+  summary: string;
+  keyPoints: string[];
+  actionItems: string[];
+  decisions: string[];
+}
+
+export interface Summarizer {
+  readonly name: string;
+  readonly version: string; // Model or algorithm version, stored with each summary
+  summarize(fullTranscript: string): Promise<SummaryData>;
+}
@@ -5,11 +5,14 @@
 
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
+import type { StoredSummary } from './summarization';
+import type { SpeakerNames } from './speakers';
 
 dotenv.config();
 
 const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_ANON_KEY;
+// The service role bypasses RLS; tables are closed to the public anon key (prisma/sql/security.sql)
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
 if (!supabaseUrl || !supabaseKey) {
   console.warn('⚠️  Supabase credentials not configured. Database features will be limited.');
@@ -25,16 +28,47 @@ export const supabase = createClient(
   }
 );
 
+// PostgREST returns at most this many rows per request (its default max-rows)
+const ROWS_PER_PAGE = 1000;
+
+/**
+ * Every row of a query, fetched page by page so results are not cut off at the row cap
+ * @param page - Runs the query, which must have a stable order, for an inclusive row range
+ */
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (;;) {
+    const { data, error } = await page(rows.length, rows.length + ROWS_PER_PAGE - 1);
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...(data ?? []));
+
+    if (!data || data.length < ROWS_PER_PAGE) {
+      return rows;
+    }
+  }
+}
+
 /**
  * Database Types
  */
+export type AudioSource = 'microphone' | 'tab_share' | 'upload' | 'import';
+export type SessionStatus = 'recording' | 'paused' | 'processing' | 'completed' | 'failed';
+
 export interface Session {
   id: string;
   user_id?: string;
   title: string;
   duration: number;
-  status: 'recording' | 'paused' | 'processing' | 'completed' | 'failed';
-  audio_source: 'microphone' | 'tab_share';
+  status: SessionStatus;
+  audio_source: AudioSource;
+  audio_path?: string; // Storage key of the original audio
+  audio_mime?: string;
   created_at: string;
   updated_at: string;
   completed_at?: string;
@@ -44,8 +78,11 @@ export interface Transcript {
   id: string;
   session_id: string;
   full_text: string;
-  summary?: string;
+  summary?: StoredSummary | string; // Plain string (JSON text) in rows written before schemaVersion existed
+  summarizer?: string;
+  summarizer_version?: string;
   speakers?: string[];
+  speaker_names?: SpeakerNames; // Display names for diarized labels
   created_at: string;
   updated_at: string;
 }
@@ -55,7 +92,22 @@ export interface TranscriptChunk {
   session_id: string;
   chunk_index: number;
   text: string;
-  timestamp: number;
+  timestamp: number; // Client wall clock when the chunk was emitted
+  media_start_ms: number | null; // Offset into the recording, paused time excluded; null for older rows
+  media_end_ms: number | null;
   confidence?: number;
   created_at: string;
 }
+
+export interface TranscriptSegmentRow {
+  id: string;
+  chunk_id: string;
+  session_id: string;
+  chunk_index: number;
+  segment_index: number;
+  speaker?: string;
+  text: string;
+  start_ms: number; // Offset within the chunk
+  end_ms: number;
+  created_at: string;
+}
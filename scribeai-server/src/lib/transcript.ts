@@ -0,0 +1,71 @@
+/**
+ * Transcript assembly
+ * Builds the full transcript from per-chunk text in recording order
+ */
+
+import type { TranscriptSegment } from './transcription';
+
+// Length of one chunk (the recorder's timeslice); chunks without media offsets are laid out by it
+export const CHUNK_DURATION_MS = 30000;
+
+/**
+ * Placeholder written into the transcript where a chunk has no text
+ */
+export function missingChunkMarker(chunkIndex: number): string {
+  return `[Chunk ${chunkIndex + 1} could not be transcribed]`;
+}
+
+/**
+ * Join chunk transcripts by chunk index, marking gaps
+ * @param chunks - Transcript text keyed by chunk index
+ * @param chunkCount - Number of chunks the recording produced
+ * @returns Full text plus the indices that were missing
+ */
+export function assembleTranscript(
+  chunks: Map<number, string>,
+  chunkCount: number
+): { text: string; missingChunks: number[] } {
+  const parts: string[] = [];
+  const missingChunks: number[] = [];
+
+  for (let index = 0; index < chunkCount; index++) {
+    const text = chunks.get(index);
+
+    if (text === undefined) {
+      missingChunks.push(index);
+      parts.push(missingChunkMarker(index));
+    } else if (text.trim()) {
+      parts.push(text.trim());
+    }
+  }
+
+  return { text: parts.join('\n\n'), missingChunks };
+}
+
+/**
+ * Render diarized segments as speaker-labelled lines
+ */
+export function formatSegments(segments: TranscriptSegment[]): string {
+  return segments
+    .filter((segment) => segment.text.trim())
+    .map((segment) => (segment.speaker ? `${segment.speaker}: ${segment.text.trim()}` : segment.text.trim()))
+    .join('\n');
+}
+
+/**
+ * Distinct speaker labels in order of first appearance
+ * @param segmentsByChunk - Segments keyed by chunk index
+ */
+export function collectSpeakers(segmentsByChunk: Map<number, TranscriptSegment[]>): string[] {
+  const speakers = new Set<string>();
+
+  [...segmentsByChunk.keys()]
+    .sort((a, b) => a - b)
+    .forEach((index) => {
+      segmentsByChunk.get(index)!.forEach((segment) => {
+        if (segment.speaker) speakers.add(segment.speaker);
+      });
+    });
+
+  return [...speakers];
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chunkImportedSegments,
+  hasTimestamps,
+  parseTranscriptFile,
+  TranscriptImportError,
+  transcriptFormat,
+} from './transcriptImport';
+
+describe('transcriptFormat', () => {
+  it('maps supported extensions regardless of case', () => {
+    expect(transcriptFormat('meeting.VTT')).toBe('vtt');
+    expect(transcriptFormat('notes.txt')).toBe('txt');
+    expect(transcriptFormat('captions.srt')).toBe('srt');
+    expect(transcriptFormat('slides.pdf')).toBeNull();
+  });
+});
+
+describe('parseTranscriptFile', () => {
+  it('reads WebVTT cues with voice spans, skipping header, NOTE and STYLE blocks', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      'NOTE exported by another tool',
+      '',
+      'STYLE',
+      '::cue { color: white }',
+      '',
+      'intro',
+      '00:00:01.000 --> 00:00:04.500',
+      "<v Priya Shah>Let's start &amp; <b>review</b></v>",
+      '',
+      '01:02.250 --> 01:05.000',
+      '<v.loud Sam>Sounds good',
+    ].join('\n');
+
+    expect(parseTranscriptFile('meeting.vtt', vtt)).toEqual([
+      { speaker: 'Priya Shah', text: "Let's start & review", startMs: 1000, endMs: 4500 },
+      { speaker: 'Sam', text: 'Sounds good', startMs: 62250, endMs: 65000 },
+    ]);
+  });
+
+  it('reads SubRip cues with comma milliseconds, CRLF line endings and "Name:" prefixes', () => {
+    const srt = [
+      '\uFEFF1',
+      '00:00:00,000 --> 00:00:02,000',
+      'Priya: Hello',
+      'there',
+      '',
+      '2',
+      '00:00:02,500 --> 00:00:03,000',
+      'No speaker here',
+      '',
+    ].join('\r\n');
+
+    expect(parseTranscriptFile('captions.srt', srt)).toEqual([
+      { speaker: 'Priya', text: 'Hello there', startMs: 0, endMs: 2000 },
+      { speaker: undefined, text: 'No speaker here', startMs: 2500, endMs: 3000 },
+    ]);
+  });
+
+  it('carries speakers and timestamps over untimed lines, ending each line where the next one starts', () => {
+    const text = [
+      '[00:00:05] Priya: Welcome',
+      'continuing the same turn',
+      'Sam:',
+      '(0:20) Thanks for having me',
+    ].join('\n');
+
+    expect(parseTranscriptFile('notes.txt', text)).toEqual([
+      { speaker: 'Priya', text: 'Welcome', startMs: 5000, endMs: 5000 },
+      { speaker: 'Priya', text: 'continuing the same turn', startMs: 5000, endMs: 20000 },
+      { speaker: 'Sam', text: 'Thanks for having me', startMs: 20000, endMs: 20000 },
+    ]);
+  });
+
+  it('does not mistake headings or lower-case phrases for speakers', () => {
+    const text = ['Priya: Welcome', 'Agenda:', 'Action items: send the notes', 'Speaker 2: Thanks'].join('\n');
+
+    expect(parseTranscriptFile('notes.txt', text).map(({ speaker, text }) => [speaker, text])).toEqual([
+      ['Priya', 'Welcome'],
+      ['Priya', 'Agenda:'],
+      ['Priya', 'Action items: send the notes'],
+      ['Speaker 2', 'Thanks'],
+    ]);
+  });
+
+  it('does not read times of day as timestamps', () => {
+    const segments = parseTranscriptFile('notes.txt', '2:30pm works for me\n10:15 am is too early\n1:05 - Sam: Agreed');
+
+    expect(segments.map(({ speaker, text, startMs }) => [speaker, text, startMs])).toEqual([
+      [undefined, '2:30pm works for me', 0],
+      [undefined, '10:15 am is too early', 0],
+      ['Sam', 'Agreed', 65000],
+    ]);
+  });
+
+  it('leaves plain text untimed', () => {
+    const segments = parseTranscriptFile('notes.txt', 'First line\nSecond line');
+    expect(segments.map((segment) => [segment.startMs, segment.endMs])).toEqual([[0, 0], [0, 0]]);
+    expect(hasTimestamps(segments)).toBe(false);
+  });
+
+  it('rejects unsupported, headerless and empty files', () => {
+    expect(() => parseTranscriptFile('slides.pdf', 'x')).toThrow(TranscriptImportError);
+    expect(() => parseTranscriptFile('meeting.vtt', '00:00.000 --> 00:01.000\nHi')).toThrow(/WEBVTT header/);
+    expect(() => parseTranscriptFile('captions.srt', '\n\n')).toThrow(/does not contain any transcript text/);
+  });
+
+  it('handles files with many cues', () => {
+    const srt = Array.from({ length: 200000 }, (_, i) => `${i + 1}\n00:00:00,000 --> 00:00:01,000\nLine ${i}`)
+      .join('\n\n');
+    expect(parseTranscriptFile('long.srt', srt)).toHaveLength(200000);
+  });
+});
+
+describe('chunkImportedSegments', () => {
+  it('places timed segments in the 30s chunk they start in, relative to that chunk', () => {
+    const chunks = chunkImportedSegments([
+      { speaker: 'A', text: 'one', startMs: 1000, endMs: 2000 },
+      { speaker: 'B', text: 'two', startMs: 31000, endMs: 35000 },
+      { speaker: 'A', text: 'three', startMs: 95000, endMs: 96000 },
+    ]);
+
+    expect([...chunks.keys()]).toEqual([0, 1, 3]);
+    expect(chunks.get(1)).toEqual([{ speaker: 'B', text: 'two', startMs: 1000, endMs: 5000 }]);
+    expect(chunks.get(3)).toEqual([{ speaker: 'A', text: 'three', startMs: 5000, endMs: 6000 }]);
+  });
+
+  it('groups untimed segments by count', () => {
+    const segments = Array.from({ length: 45 }, (_, i) => ({ text: `line ${i}`, startMs: 0, endMs: 0 }));
+    const chunks = chunkImportedSegments(segments);
+
+    expect([...chunks.values()].map((chunk) => chunk.length)).toEqual([20, 20, 5]);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Transcript import
+ * Parses transcripts exported by other tools (.txt, .vtt, .srt) into speaker-attributed segments,
+ * keeping cue timestamps, and lays them out as chunks on the same timeline as recorded sessions
+ */
+
+import path from 'path';
+import type { TranscriptSegment } from './transcription';
+import { CHUNK_DURATION_MS } from './transcript';
+
+export type TranscriptFormat = 'txt' | 'vtt' | 'srt';
+
+// Untimed text has no timeline, so it is chunked by segment count instead
+const UNTIMED_SEGMENTS_PER_CHUNK = 20;
+
+/**
+ * A segment positioned on the whole meeting's timeline
+ */
+export interface ImportedSegment {
+  speaker?: string;
+  text: string;
+  startMs: number; // Offset from the start of the meeting
+  endMs: number;
+}
+
+/**
+ * The file could not be read as a transcript
+ */
+export class TranscriptImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptImportError';
+  }
+}
+
+const CUE_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+// "Name: text" with a short capitalized name (up to four words or numbers), e.g. "Priya Shah: Let's start"
+// or "Speaker 2:", or a bare "Name:" heading; lower-case words ("Action items:") are not names
+const SPEAKER_PREFIX = /^([\p{Lu}\p{Lo}][\p{L}\p{N}.'-]*(?: (?:[\p{Lu}\p{Lo}][\p{L}\p{N}.'-]*|\p{N}+)){0,3}):(?:\s+(.+))?$/u;
+
+// Capitalized section headings that look like "Name:" prefixes
+const HEADINGS = new Set([
+  'agenda',
+  'attendees',
+  'decisions',
+  'minutes',
+  'next steps',
+  'note',
+  'notes',
+  'participants',
+  'summary',
+  'topic',
+  'transcript',
+]);
+
+// Leading timestamp on a text line: "[00:01:02]", "(1:02)" or "00:01:02 -"; it must be followed by a
+// separator or the end of the line, so times of day ("2:30pm", "2:30 pm") are left alone
+const TEXT_TIMESTAMP = /^[[(]?((?:\d+:)?\d{1,2}:\d{2})(?:[.,]\d{1,3})?[\])]?(?!\s*[ap]\.?m\b)(?=[\s\-–]|$)\s*[-–]?\s*/i;
+
+/**
+ * Format implied by a file name
+ */
+export function transcriptFormat(fileName: string): TranscriptFormat | null {
+  const extension = path.extname(fileName).toLowerCase().slice(1);
+  return extension === 'txt' || extension === 'vtt' || extension === 'srt' ? extension : null;
+}
+
+/**
+ * Parse `hh:mm:ss.mmm`, `mm:ss,mmm` or `mm:ss` into milliseconds
+ */
+function parseTimestamp(value: string): number {
+  const [clock, fraction = '0'] = value.split(/[.,]/);
+  const seconds = clock
+    .split(':')
+    .map(Number)
+    .reduce((total, part) => total * 60 + part, 0);
+  return seconds * 1000 + Number(fraction.padEnd(3, '0').slice(0, 3));
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Split a "Name: text" line into speaker and text
+ */
+function splitSpeakerPrefix(line: string): { speaker?: string; text: string } {
+  const match = line.match(SPEAKER_PREFIX);
+  if (!match || HEADINGS.has(match[1].toLowerCase())) {
+    return { text: line };
+  }
+  return { speaker: match[1], text: match[2] ?? '' };
+}
+
+/**
+ * Speaker and plain text of a cue payload, from a `<v Name>` voice span or a "Name:" prefix
+ */
+function parseCuePayload(payload: string): { speaker?: string; text: string } {
+  const voice = payload.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+  const text = decodeEntities(payload.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+
+  if (voice) {
+    return { speaker: voice[1].trim(), text };
+  }
+
+  return splitSpeakerPrefix(text);
+}
+
+/**
+ * Parse cue blocks shared by WebVTT and SubRip: optional identifier, timing line, payload lines
+ */
+function parseCues(content: string): ImportedSegment[] {
+  const segments: ImportedSegment[] = [];
+
+  for (const block of content.split(/\n\s*\n/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    if (timingIndex === -1) continue; // Header, NOTE, STYLE or REGION block
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    const { speaker, text } = parseCuePayload(lines.slice(timingIndex + 1).join('\n'));
+    if (!text) continue;
+
+    segments.push({ speaker, text, startMs: parseTimestamp(start), endMs: parseTimestamp(end) });
+  }
+
+  return segments;
+}
+
+/**
+ * Parse plain text: one turn per line, with optional leading timestamps and "Name:" prefixes
+ * Lines without a speaker continue the previous speaker's turn
+ */
+function parseText(content: string): ImportedSegment[] {
+  const segments: ImportedSegment[] = [];
+  let speaker: string | undefined;
+  let startMs = 0; // Untimed lines share the last timestamp seen
+
+  for (const rawLine of content.split('\n')) {
+    let line = rawLine.trim();
+    if (!line) continue;
+
+    const timestamp = line.match(TEXT_TIMESTAMP);
+    if (timestamp) {
+      startMs = parseTimestamp(timestamp[1]);
+      line = line.slice(timestamp[0].length);
+    }
+
+    const parsed = splitSpeakerPrefix(line);
+    if (parsed.speaker) {
+      speaker = parsed.speaker;
+    }
+
+    // A line that is only a speaker heading ("Priya:") carries over to the next line
+    if (!parsed.text.trim()) continue;
+
+    segments.push({ speaker, text: parsed.text.trim(), startMs, endMs: startMs });
+  }
+
+  // Timestamped lines only mark where each turn starts; it runs until the next one
+  if (segments.some((segment) => segment.startMs > 0)) {
+    segments.forEach((segment, index) => {
+      const next = segments[index + 1];
+      segment.endMs = next && next.startMs > segment.startMs ? next.startMs : segment.startMs;
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Parse a transcript file
+ * @throws TranscriptImportError for unsupported formats or files with no text
+ */
+export function parseTranscriptFile(fileName: string, content: string): ImportedSegment[] {
+  const format = transcriptFormat(fileName);
+  if (!format) {
+    throw new TranscriptImportError('Transcripts must be .txt, .vtt or .srt files');
+  }
+
+  // Normalize line endings and drop a byte-order mark
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+  if (format === 'vtt' && !normalized.trimStart().startsWith('WEBVTT')) {
+    throw new TranscriptImportError('Not a WebVTT file (missing WEBVTT header)');
+  }
+
+  const segments = format === 'txt' ? parseText(normalized) : parseCues(normalized);
+  if (segments.length === 0) {
+    throw new TranscriptImportError('The file does not contain any transcript text');
+  }
+
+  return segments;
+}
+
+/**
+ * Whether the transcript carried any timestamps
+ */
+export function hasTimestamps(segments: ImportedSegment[]): boolean {
+  return segments.some((segment) => segment.endMs > 0);
+}
+
+/**
+ * Group segments into chunks keyed by chunk index, with times relative to their chunk
+ * Timed segments land in the 30s chunk their cue starts in; untimed ones are grouped by count
+ */
+export function chunkImportedSegments(segments: ImportedSegment[]): Map<number, TranscriptSegment[]> {
+  const timed = hasTimestamps(segments);
+  const chunks = new Map<number, TranscriptSegment[]>();
+
+  segments.forEach((segment, position) => {
+    const chunkIndex = timed
+      ? Math.floor(segment.startMs / CHUNK_DURATION_MS)
+      : Math.floor(position / UNTIMED_SEGMENTS_PER_CHUNK);
+    const chunkStart = timed ? chunkIndex * CHUNK_DURATION_MS : 0;
+
+    const chunk = chunks.get(chunkIndex) ?? [];
+    chunk.push({
+      speaker: segment.speaker,
+      text: segment.text,
+      startMs: segment.startMs - chunkStart,
+      endMs: segment.endMs - chunkStart,
+    });
+    chunks.set(chunkIndex, chunk);
+  });
+
+  return chunks;
+}
@@ -0,0 +1,84 @@
+/**
+ * Fixture transcription provider
+ * Deterministic, offline transcription for development and tests: returns scripted text
+ * and segments without touching the network
+ *
+ * Fixture file format (JSON):
+ * {
+ *   "byHash": { "<sha256 of chunk audio>": { "text": "...", "segments": [...] } },
+ *   "script": [ { "text": "..." }, { "error": "Overloaded", "retryable": true } ]
+ * }
+ * Chunks are matched by audio hash first, then by index into `script` (wrapping around);
+ * anything else gets a generated placeholder
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { TranscriptionError } from '../errors';
+import { formatSegments } from '../transcript';
+import { TranscriptSegment, TranscriptionProvider, TranscriptionResult } from './types';
+
+interface FixtureEntry {
+  text?: string;
+  confidence?: number;
+  segments?: TranscriptSegment[];
+  // Simulate a provider failure instead of returning text
+  error?: string;
+  retryable?: boolean;
+}
+
+interface FixtureFile {
+  byHash?: Record<string, FixtureEntry>;
+  script?: FixtureEntry[];
+}
+
+export interface FixtureTranscriptionOptions {
+  fixturePath?: string;
+}
+
+function loadFixtures(fixturePath?: string): FixtureFile {
+  if (!fixturePath) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(fixturePath, 'utf8')) as FixtureFile;
+  } catch (error) {
+    throw new Error(`Could not load transcription fixtures from ${fixturePath}: ${error}`);
+  }
+}
+
+export function createFixtureTranscriptionProvider(
+  options: FixtureTranscriptionOptions = {}
+): TranscriptionProvider {
+  const fixtures = loadFixtures(options.fixturePath);
+
+  return {
+    name: 'fixture',
+
+    async transcribe({ audio, chunkIndex }): Promise<TranscriptionResult> {
+      const hash = createHash('sha256').update(audio).digest('hex');
+      const script = fixtures.script ?? [];
+      const entry =
+        fixtures.byHash?.[hash] ??
+        (script.length > 0 ? script[chunkIndex % script.length] : undefined);
+
+      if (entry?.error) {
+        throw new TranscriptionError(entry.error, entry.retryable ?? false);
+      }
+
+      if (entry) {
+        return {
+          text: entry.text ?? formatSegments(entry.segments ?? []),
+          confidence: entry.confidence ?? 1,
+          segments: entry.segments,
+        };
+      }
+
+      return {
+        text: `Fixture transcript for chunk ${chunkIndex} (${audio.length} bytes, ${hash.slice(0, 8)}).`,
+        confidence: 1,
+      };
+    },
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Gemini transcription provider
+ * Sends each audio chunk inline to a Gemini model and asks for diarized segments
+ * using Gemini's JSON response mode
+ */
+
+import { GoogleGenerativeAI, ResponseSchema, SchemaType } from '@google/generative-ai';
+import { z } from 'zod';
+import { TranscriptionError, isRetryableError } from '../errors';
+import { formatSegments } from '../transcript';
+import { TranscriptionContext, TranscriptionProvider } from './types';
+
+export interface GeminiTranscriptionOptions {
+  apiKey: string;
+  model: string;
+}
+
+const RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    segments: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          speaker: { type: SchemaType.STRING },
+          text: { type: SchemaType.STRING },
+          startMs: { type: SchemaType.INTEGER },
+          endMs: { type: SchemaType.INTEGER },
+        },
+        required: ['speaker', 'text', 'startMs', 'endMs'],
+      },
+    },
+  },
+  required: ['segments'],
+};
+
+const responseSchema = z.object({
+  segments: z.array(
+    z.object({
+      speaker: z.string().trim().min(1).optional().catch(undefined),
+      text: z.string(),
+      startMs: z.number().nonnegative(),
+      endMs: z.number().nonnegative(),
+    })
+  ),
+});
+
+const PROMPT = `Transcribe the following audio accurately with speaker diarization.
+Split it into segments at every change of speaker. Label speakers "Speaker 1", "Speaker 2", ...
+in order of first appearance. Give each segment's start and end as milliseconds from the start
+of this audio. Return no segments if there is no speech.`;
+
+/**
+ * Ask the model to keep labels from earlier chunks for the same people
+ */
+function contextPrompt(context: TranscriptionContext): string {
+  return `This audio continues a recording. Speakers identified so far: ${context.speakers.join(', ')}.
+Reuse those exact labels for the same people (use the conversation to tell who is speaking) and
+number any new speaker after them. The previous part of the transcript ended with:
+---
+${context.previousText}
+---`;
+}
+
+export function createGeminiTranscriptionProvider(
+  options: GeminiTranscriptionOptions
+): TranscriptionProvider {
+  const genAI = new GoogleGenerativeAI(options.apiKey);
+  const model = genAI.getGenerativeModel({
+    model: options.model,
+    generationConfig: {
+      responseMimeType: 'application/json',
+      responseSchema: RESPONSE_SCHEMA,
+    },
+  });
+
+  return {
+    name: 'gemini',
+
+    async transcribe({ audio, mimeType, chunkIndex, context }) {
+      let output: string;
+      try {
+        const result = await model.generateContent([
+          context ? `${PROMPT}\n\n${contextPrompt(context)}` : PROMPT,
+          {
+            inlineData: {
+              mimeType,
+              data: audio.toString('base64'),
+            },
+          },
+        ]);
+
+        output = result.response.text();
+      } catch (error) {
+        console.error('Error transcribing audio chunk:', error);
+        const status = (error as { status?: number })?.status;
+        throw new TranscriptionError(
+          `Transcription failed for chunk ${chunkIndex}: ${error}`,
+          isRetryableError(error),
+          status
+        );
+      }
+
+      let parsed: z.infer<typeof responseSchema>;
+      try {
+        parsed = responseSchema.parse(JSON.parse(output));
+      } catch (error) {
+        // Malformed structured output is usually a one-off; another attempt tends to succeed
+        throw new TranscriptionError(`Unreadable transcription for chunk ${chunkIndex}: ${error}`, true);
+      }
+
+      const segments = parsed.segments
+        .filter((segment) => segment.text.trim())
+        .map((segment) => ({
+          ...segment,
+          text: segment.text.trim(),
+          endMs: Math.max(segment.startMs, segment.endMs),
+        }));
+
+      return {
+        text: formatSegments(segments),
+        confidence: 0.85, // Placeholder - Gemini doesn't return confidence scores directly
+        segments,
+      };
+    },
+  };
+}
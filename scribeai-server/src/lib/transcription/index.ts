@@ -0,0 +1,32 @@
+/**
+ * Transcription provider selection
+ * Chooses the configured speech-to-text backend (`TRANSCRIPTION_PROVIDER`)
+ */
+
+import { config } from '../config';
+import { createGeminiTranscriptionProvider } from './gemini';
+import { createFixtureTranscriptionProvider } from './fixture';
+import { TranscriptionProvider } from './types';
+
+export * from './types';
+
+/**
+ * Create the transcription provider named in config
+ */
+export function createTranscriptionProvider(
+  name: string = config.transcriptionProvider
+): TranscriptionProvider {
+  switch (name) {
+    case 'gemini':
+      return createGeminiTranscriptionProvider({
+        apiKey: config.geminiApiKey,
+        model: config.geminiTranscriptionModel,
+      });
+    case 'fixture':
+      return createFixtureTranscriptionProvider({
+        fixturePath: config.transcriptionFixturePath,
+      });
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${name}" (expected gemini or fixture)`);
+  }
+}
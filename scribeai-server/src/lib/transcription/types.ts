@@ -0,0 +1,40 @@
+/**
+ * Transcription provider contract
+ * Every speech-to-text backend implements this; the rest of the server depends only on it
+ */
+
+/**
+ * A stretch of speech within a chunk
+ */
+export interface TranscriptSegment {
+  speaker?: string;
+  text: string;
+  startMs: number; // Offset from the start of the chunk
+  endMs: number;
+}
+
+/**
+ * What earlier chunks of the session established, so speaker labels carry over
+ */
+export interface TranscriptionContext {
+  speakers: string[]; // Labels already in use, e.g. "Speaker 1"
+  previousText: string; // Speaker-labelled tail of the previous transcribed chunk
+}
+
+export interface TranscriptionRequest {
+  audio: Buffer;
+  mimeType: string;
+  chunkIndex: number;
+  context?: TranscriptionContext;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  confidence?: number;
+  segments?: TranscriptSegment[];
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
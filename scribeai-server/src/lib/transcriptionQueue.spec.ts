@@ -0,0 +1,243 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranscriptionError } from './errors';
+import {
+  createTranscriptionQueue,
+  TranscriptionJob,
+  TranscriptionJobInput,
+  TranscriptionQueueOptions,
+} from './transcriptionQueue';
+
+const SESSION_ID = '6f1c7c1e-2b7a-4d7e-9a53-0d4a8c1b2e3f';
+
+function jobInput(chunkIndex: number, userId = 'user-1', sessionId = SESSION_ID): TranscriptionJobInput {
+  return {
+    sessionId,
+    userId,
+    chunkIndex,
+    timestamp: 0,
+    mediaStartMs: chunkIndex * 30000,
+    mediaEndMs: (chunkIndex + 1) * 30000,
+    mimeType: 'audio/webm',
+  };
+}
+
+/**
+ * A promise the test resolves by hand
+ */
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+describe('createTranscriptionQueue', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'transcription-queue-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  function createQueue(overrides: Partial<TranscriptionQueueOptions> = {}) {
+    return createTranscriptionQueue({
+      directory,
+      concurrency: 4,
+      perUserConcurrency: 4,
+      maxAttempts: 3,
+      retryBaseMs: 10,
+      retryMaxMs: 15,
+      transcribe: async (audio) => ({ text: audio.toString() }),
+      onSuccess: async () => undefined,
+      onRetry: () => undefined,
+      onFailure: () => undefined,
+      ...overrides,
+    });
+  }
+
+  it('transcribes a job and removes its files', async () => {
+    const onSuccess = vi.fn(async () => undefined);
+    const queue = createQueue({ onSuccess });
+
+    await queue.enqueue(jobInput(0), Buffer.from('hello'));
+
+    expect(onSuccess).toHaveBeenCalledWith(expect.objectContaining({ chunkIndex: 0, attempts: 1 }), { text: 'hello' });
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it('never runs more jobs than the global cap', async () => {
+    const gates = [deferred(), deferred(), deferred(), deferred()];
+    let running = 0;
+    let peak = 0;
+
+    const queue = createQueue({
+      concurrency: 2,
+      transcribe: async (_audio, job) => {
+        running++;
+        peak = Math.max(peak, running);
+        await gates[job.chunkIndex].promise;
+        running--;
+        return { text: '' };
+      },
+    });
+
+    const jobs = [0, 1, 2, 3].map((index) => queue.enqueue(jobInput(index, `user-${index}`), Buffer.from('a')));
+    await vi.waitFor(() => expect(running).toBe(2));
+
+    gates.forEach((gate) => gate.resolve());
+    await Promise.all(jobs);
+    expect(peak).toBe(2);
+  });
+
+  it('holds a user to the per-user cap while other users run', async () => {
+    const gate = deferred();
+    const started: string[] = [];
+
+    const queue = createQueue({
+      perUserConcurrency: 1,
+      transcribe: async (_audio, job) => {
+        started.push(`${job.userId}/${job.chunkIndex}`);
+        await gate.promise;
+        return { text: '' };
+      },
+    });
+
+    const jobs = [
+      queue.enqueue(jobInput(0, 'busy'), Buffer.from('a')),
+      queue.enqueue(jobInput(1, 'busy'), Buffer.from('a')),
+      queue.enqueue(jobInput(0, 'other', '0b9d2f4e-8c1a-4b6f-9e2d-3c5a7b9d1f2e'), Buffer.from('a')),
+    ];
+    await vi.waitFor(() => expect(started).toHaveLength(2));
+
+    expect(started).toEqual(['busy/0', 'other/0']);
+
+    gate.resolve();
+    await Promise.all(jobs);
+    expect(started).toContain('busy/1');
+  });
+
+  it('retries transient failures with capped, jittered backoff', async () => {
+    const delays: number[] = [];
+    let calls = 0;
+
+    const queue = createQueue({
+      transcribe: async () => {
+        calls++;
+        if (calls < 3) throw new TranscriptionError('rate limited', true, 429);
+        return { text: 'done' };
+      },
+      onRetry: (_job, delayMs) => delays.push(delayMs),
+    });
+
+    const onSuccess = vi.fn();
+    await queue.enqueue(jobInput(0), Buffer.from('a')).then(onSuccess);
+
+    expect(calls).toBe(3);
+    expect(delays).toHaveLength(2);
+    // Half the capped delay plus up to the other half: 10ms, then 20ms capped at 15ms
+    expect(delays[0]).toBeGreaterThanOrEqual(5);
+    expect(delays[0]).toBeLessThanOrEqual(10);
+    expect(delays[1]).toBeGreaterThanOrEqual(8);
+    expect(delays[1]).toBeLessThanOrEqual(15);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const onRetry = vi.fn();
+    const onFailure = vi.fn();
+
+    const queue = createQueue({
+      transcribe: async () => {
+        throw new TranscriptionError('unavailable', true, 503);
+      },
+      onRetry,
+      onFailure,
+    });
+
+    await queue.enqueue(jobInput(0), Buffer.from('a'));
+
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onFailure).toHaveBeenCalledWith(expect.objectContaining({ attempts: 3 }), 'unavailable');
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it('keeps a job that fails retryably while the queue is stopping', async () => {
+    const started = deferred();
+    const gate = deferred();
+    const onFailure = vi.fn();
+
+    const queue = createQueue({
+      transcribe: async () => {
+        started.resolve();
+        await gate.promise;
+        throw new TranscriptionError('unavailable', true, 503);
+      },
+      onFailure,
+    });
+
+    void queue.enqueue(jobInput(0), Buffer.from('a'));
+    await started.promise;
+    queue.stop();
+    gate.resolve();
+
+    await vi.waitFor(async () => {
+      const job = JSON.parse(await fs.readFile(path.join(directory, `${SESSION_ID}-0.json`), 'utf8'));
+      expect(job.attempts).toBe(1);
+    });
+    expect((await fs.readdir(directory)).sort()).toEqual([`${SESSION_ID}-0.audio`, `${SESSION_ID}-0.json`]);
+    expect(onFailure).not.toHaveBeenCalled();
+  });
+
+  it('fails permanent errors without retrying', async () => {
+    const onRetry = vi.fn();
+    const onFailure = vi.fn();
+
+    const queue = createQueue({
+      transcribe: async () => {
+        throw new TranscriptionError('unsupported audio', false, 400);
+      },
+      onRetry,
+      onFailure,
+    });
+
+    await queue.enqueue(jobInput(0), Buffer.from('a'));
+
+    expect(onRetry).not.toHaveBeenCalled();
+    expect(onFailure).toHaveBeenCalledWith(expect.objectContaining({ attempts: 1 }), 'unsupported audio');
+  });
+
+  it('refuses session ids that would name files outside the queue directory', async () => {
+    const queue = createQueue();
+
+    await expect(queue.enqueue(jobInput(0, 'user-1', '../../escape'), Buffer.from('a'))).rejects.toThrow(
+      /Invalid transcription job/
+    );
+    await expect(fs.access(path.join(directory, '..', '..', 'escape-0.audio'))).rejects.toThrow();
+  });
+
+  it('restores jobs persisted by a stopped queue', async () => {
+    const first = createQueue();
+    first.stop();
+    void first.enqueue(jobInput(0), Buffer.from('persisted'));
+    await vi.waitFor(async () => expect((await fs.readdir(directory)).sort()).toEqual([
+      `${SESSION_ID}-0.audio`,
+      `${SESSION_ID}-0.json`,
+    ]));
+
+    const transcribed: Array<[string, TranscriptionJob]> = [];
+    const second = createQueue({
+      onSuccess: async (job, result) => {
+        transcribed.push([result.text, job]);
+      },
+    });
+
+    expect(await second.restore()).toBe(1);
+    await vi.waitFor(() => expect(transcribed).toHaveLength(1));
+    expect(transcribed[0][0]).toBe('persisted');
+    expect(transcribed[0][1].chunkIndex).toBe(0);
+  });
+});
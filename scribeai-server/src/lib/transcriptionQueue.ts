@@ -0,0 +1,281 @@
+/**
+ * Transcription job queue
+ * Runs chunk transcriptions under global and per-user concurrency caps, retries transient
+ * failures with exponential backoff and jitter, and persists jobs to disk so they survive restarts
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { isRetryableError } from './errors';
+import { TranscriptionResult } from './transcription';
+
+export interface TranscriptionJob {
+  id: string;
+  sessionId: string;
+  userId: string;
+  chunkIndex: number;
+  timestamp: number; // Client timestamp of the chunk
+  mediaStartMs: number; // Offset of the chunk into the recording, paused time excluded
+  mediaEndMs: number;
+  mimeType: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export type TranscriptionJobInput = Pick<
+  TranscriptionJob,
+  'sessionId' | 'userId' | 'chunkIndex' | 'timestamp' | 'mediaStartMs' | 'mediaEndMs' | 'mimeType'
+>;
+
+export interface TranscriptionQueueOptions {
+  directory: string; // Where jobs and their audio are persisted
+  concurrency: number;
+  perUserConcurrency: number;
+  maxAttempts: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  transcribe: (audio: Buffer, job: TranscriptionJob) => Promise<TranscriptionResult>;
+  onSuccess: (job: TranscriptionJob, result: TranscriptionResult) => Promise<void>;
+  onRetry: (job: TranscriptionJob, delayMs: number, error: string) => void;
+  onFailure: (job: TranscriptionJob, error: string) => void | Promise<void>;
+}
+
+export interface TranscriptionQueue {
+  /**
+   * Persist and schedule a job
+   * @returns Promise that settles once the job has succeeded or permanently failed
+   */
+  enqueue(input: TranscriptionJobInput, audio: Buffer): Promise<void>;
+  /**
+   * Re-schedule jobs persisted by a previous process
+   * @returns Number of jobs restored
+   */
+  restore(): Promise<number>;
+  /**
+   * Stop scheduling new attempts; persisted jobs are picked up again by `restore()`
+   */
+  stop(): void;
+}
+
+/**
+ * Exponential backoff with equal jitter: half the capped delay plus a random share of the other half
+ */
+function backoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  const capped = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+  return Math.round(capped / 2 + Math.random() * (capped / 2));
+}
+
+/**
+ * Create a transcription queue
+ */
+export function createTranscriptionQueue(options: TranscriptionQueueOptions): TranscriptionQueue {
+  const directory = path.resolve(options.directory);
+
+  const queued = new Map<string, TranscriptionJob>(); // Waiting to run, including backoff
+  const running = new Set<string>();
+  const runningByUser = new Map<string, number>();
+  const settleCallbacks = new Map<string, () => void>();
+  let wakeTimer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  /**
+   * Path of one of a job's files, refusing ids that would place it outside the queue directory
+   */
+  const jobFile = (id: string, extension: string) => {
+    const filePath = path.resolve(directory, `${id}.${extension}`);
+    if (path.dirname(filePath) !== directory) {
+      throw new Error(`Invalid transcription job id: ${id}`);
+    }
+    return filePath;
+  };
+
+  const jobPath = (id: string) => jobFile(id, 'json');
+  const audioPath = (id: string) => jobFile(id, 'audio');
+
+  /**
+   * Write job metadata atomically
+   */
+  async function persist(job: TranscriptionJob) {
+    const tmpPath = `${jobPath(job.id)}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(job));
+    await fs.rename(tmpPath, jobPath(job.id));
+  }
+
+  async function removeFiles(job: TranscriptionJob) {
+    await Promise.all([
+      fs.rm(jobPath(job.id), { force: true }),
+      fs.rm(audioPath(job.id), { force: true }),
+    ]);
+  }
+
+  function settle(job: TranscriptionJob) {
+    settleCallbacks.get(job.id)?.();
+    settleCallbacks.delete(job.id);
+  }
+
+  function adjustUserCount(userId: string, delta: number) {
+    const count = (runningByUser.get(userId) ?? 0) + delta;
+    if (count > 0) {
+      runningByUser.set(userId, count);
+    } else {
+      runningByUser.delete(userId);
+    }
+  }
+
+  /**
+   * Start every job that is due and fits under the caps; wake up again for the next backoff
+   */
+  function schedule() {
+    if (stopped) return;
+
+    clearTimeout(wakeTimer);
+    wakeTimer = undefined;
+
+    const now = Date.now();
+    let nextWake = Infinity;
+
+    // Oldest due first; chunk order within a session as tie-breaker
+    const candidates = [...queued.values()].sort(
+      (a, b) => a.nextAttemptAt - b.nextAttemptAt || a.chunkIndex - b.chunkIndex
+    );
+
+    for (const job of candidates) {
+      if (running.size >= options.concurrency) break;
+
+      if (job.nextAttemptAt > now) {
+        nextWake = Math.min(nextWake, job.nextAttemptAt);
+        continue;
+      }
+
+      if ((runningByUser.get(job.userId) ?? 0) >= options.perUserConcurrency) {
+        continue;
+      }
+
+      start(job);
+    }
+
+    if (nextWake !== Infinity) {
+      wakeTimer = setTimeout(schedule, nextWake - now);
+      wakeTimer.unref();
+    }
+  }
+
+  function start(job: TranscriptionJob) {
+    queued.delete(job.id);
+    running.add(job.id);
+    adjustUserCount(job.userId, 1);
+
+    run(job).finally(() => {
+      running.delete(job.id);
+      adjustUserCount(job.userId, -1);
+      schedule();
+    });
+  }
+
+  /**
+   * Make one attempt at a job, then either finish it, back off, or give up
+   */
+  async function run(job: TranscriptionJob) {
+    job.attempts++;
+
+    try {
+      const audio = await fs.readFile(audioPath(job.id));
+      const result = await options.transcribe(audio, job);
+      await options.onSuccess(job, result);
+      await removeFiles(job);
+      settle(job);
+      return;
+    } catch (error) {
+      job.lastError = error instanceof Error ? error.message : String(error);
+
+      // Once stopped the job stays persisted for the next run's restore() rather than failing
+      if (isRetryableError(error) && job.attempts < options.maxAttempts) {
+        const delayMs = backoffDelay(job.attempts, options.retryBaseMs, options.retryMaxMs);
+        job.nextAttemptAt = Date.now() + delayMs;
+        queued.set(job.id, job);
+
+        await persist(job).catch((persistError) => {
+          console.error(`Error persisting transcription job ${job.id}:`, persistError);
+        });
+
+        options.onRetry(job, delayMs, job.lastError);
+        return;
+      }
+    }
+
+    // Permanent failure (or out of attempts)
+    await removeFiles(job).catch((removeError) => {
+      console.error(`Error removing transcription job ${job.id}:`, removeError);
+    });
+
+    try {
+      await options.onFailure(job, job.lastError ?? 'Unknown error');
+    } finally {
+      settle(job);
+    }
+  }
+
+  return {
+    async enqueue(input, audio) {
+      // Job files are named after the session and chunk
+      const validChunk = Number.isInteger(input.chunkIndex) && input.chunkIndex >= 0;
+      if (!z.uuid().safeParse(input.sessionId).success || !validChunk) {
+        throw new Error(`Invalid transcription job: session ${input.sessionId}, chunk ${input.chunkIndex}`);
+      }
+
+      const job: TranscriptionJob = {
+        ...input,
+        id: `${input.sessionId}-${input.chunkIndex}`,
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+      };
+
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(audioPath(job.id), audio);
+      await persist(job);
+
+      const settled = new Promise<void>((resolve) => settleCallbacks.set(job.id, resolve));
+      queued.set(job.id, job);
+      schedule();
+
+      return settled;
+    },
+
+    async restore() {
+      await fs.mkdir(directory, { recursive: true });
+
+      let restored = 0;
+      for (const file of await fs.readdir(directory)) {
+        if (!file.endsWith('.json')) continue;
+
+        try {
+          const job = JSON.parse(await fs.readFile(path.join(directory, file), 'utf8')) as TranscriptionJob;
+
+          // Without its audio the job can never run
+          const hasAudio = await fs.access(audioPath(job.id)).then(() => true, () => false);
+          if (!hasAudio) {
+            await removeFiles(job);
+            continue;
+          }
+
+          if (!queued.has(job.id) && !running.has(job.id)) {
+            queued.set(job.id, job);
+            restored++;
+          }
+        } catch (error) {
+          console.error(`Error restoring transcription job ${file}:`, error);
+        }
+      }
+
+      schedule();
+      return restored;
+    },
+
+    stop() {
+      stopped = true;
+      clearTimeout(wakeTimer);
+    },
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Socket.io handshake authentication
+ * Rejects sockets without a valid Better Auth session and attaches the verified user
+ */
+
+import { Socket } from 'socket.io';
+import { authenticate, AuthUser } from '../lib/auth';
+
+/**
+ * Handshake middleware for `io.use()`
+ */
+export async function authenticateSocket(
+  socket: Socket,
+  next: (err?: Error) => void
+) {
+  try {
+    const user = await authenticate({
+      token: socket.handshake.auth?.token,
+      authorization: socket.handshake.headers.authorization,
+      cookie: socket.handshake.headers.cookie,
+    });
+
+    if (!user) {
+      console.warn(`🔒 Rejected unauthenticated socket: ${socket.id}`);
+      next(new Error('Unauthorized'));
+      return;
+    }
+
+    socket.data.user = user;
+    next();
+  } catch (error) {
+    console.error('Error authenticating socket:', error);
+    next(new Error('Authentication failed'));
+  }
+}
+
+/**
+ * Get the verified user attached by `authenticateSocket`
+ */
+export function getSocketUser(socket: Socket): AuthUser {
+  return socket.data.user as AuthUser;
+}
@@ -0,0 +1,339 @@
+/**
+ * Session finalization
+ * Generates the summary, persists the full transcript and releases in-memory state
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Server } from 'socket.io';
+import { fetchAllRows, supabase, Session } from '../lib/supabase';
+import { summarizeTranscript, toStoredSummary } from '../lib/summarization';
+import { config } from '../lib/config';
+import { assembleTranscript, collectSpeakers, formatSegments } from '../lib/transcript';
+import { reconcileSpeakers } from '../lib/speakers';
+import { AudioContainer, containerExtension } from '../lib/audioContainer';
+import { remuxAudio } from '../lib/ffmpeg';
+import { getStorage } from '../lib/storage';
+import { SessionData, activeSessions, removeSession } from './sessions';
+import { saveSegments } from './transcription';
+
+/**
+ * Number of chunks the session should end up with: what the client reported on stop,
+ * or everything received so far
+ */
+function expectedChunkCount(session: SessionData): number {
+  let highestReceived = -1;
+  for (const seq of session.receivedSeqs) {
+    highestReceived = Math.max(highestReceived, seq);
+  }
+  return Math.max(session.expectedChunkCount ?? 0, highestReceived + 1);
+}
+
+/**
+ * Wait until every expected chunk has arrived and all transcriptions have settled,
+ * or until `timeoutMs` elapses
+ */
+async function drainTranscriptions(session: SessionData, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    const expected = expectedChunkCount(session);
+    const allArrived = session.receivedSeqs.size >= expected;
+    const pending = [...session.pendingTranscriptions.values()];
+
+    if (allArrived && pending.length === 0) {
+      return;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return;
+    }
+
+    // Re-check whenever a transcription settles, a chunk arrives, or the deadline passes
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      ...pending,
+      new Promise<void>((resolve) => session.chunkWaiters.push(resolve)),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, remaining);
+      }),
+    ]);
+    clearTimeout(timer);
+  }
+}
+
+// Containers MediaRecorder writes without a duration or seek index
+const REMUXED_CONTAINERS: AudioContainer[] = ['webm', 'mp4'];
+
+/**
+ * Remux the spooled recording into a seekable file next to the spool
+ * @returns Path of the remuxed file, or null when the container needs none or ffmpeg fails
+ */
+async function remuxSpooledAudio(session: SessionData): Promise<string | null> {
+  if (!REMUXED_CONTAINERS.includes(session.container)) {
+    return null;
+  }
+
+  const extension = containerExtension(session.container);
+  const input = path.join(config.audioSpoolDir, `${session.sessionId}.recording.${extension}`);
+  const output = path.join(config.audioSpoolDir, `${session.sessionId}.remuxed.${extension}`);
+
+  try {
+    await pipeline(session.audio.stream(), createWriteStream(input));
+    await remuxAudio(input, output);
+    return output;
+  } catch (error) {
+    console.warn(`⚠️  Could not remux audio for ${session.sessionId}, storing it as recorded:`, error);
+    await fs.rm(output, { force: true });
+    return null;
+  } finally {
+    await fs.rm(input, { force: true });
+  }
+}
+
+/**
+ * Promote the session's spooled audio to permanent storage and record where it is
+ * WebM and MP4 recordings are remuxed first so the stored file can be seeked
+ * Failures are logged; the transcript is still saved without audio
+ */
+async function persistSessionAudio(session: SessionData): Promise<void> {
+  const { sessionId, audio } = session;
+
+  if (audio.size() === 0) {
+    return;
+  }
+
+  const remuxed = await remuxSpooledAudio(session);
+
+  try {
+    const storage = getStorage();
+    const key = `sessions/${session.userId}/${sessionId}.${containerExtension(session.container)}`;
+    const size = remuxed ? (await fs.stat(remuxed)).size : audio.size();
+    const body: Readable = remuxed ? createReadStream(remuxed) : audio.stream();
+
+    await storage.put(key, body, { contentType: session.mimeType, contentLength: size });
+
+    const { error } = await supabase.from('sessions').update({
+      audio_path: key,
+      audio_mime: session.mimeType,
+      updated_at: new Date().toISOString(),
+    }).eq('id', sessionId);
+
+    if (error) {
+      throw error;
+    }
+
+    console.log(`💾 Stored ${size} bytes of audio for ${sessionId} (${storage.name})`);
+  } catch (error) {
+    console.error(`Error storing audio for ${sessionId}:`, error);
+  } finally {
+    if (remuxed) {
+      await fs.rm(remuxed, { force: true });
+    }
+  }
+}
+
+/**
+ * Make speaker labels consistent across chunks, in memory and in the stored chunks and segments
+ */
+async function applySpeakerReconciliation(session: SessionData): Promise<void> {
+  const { sessionId } = session;
+  const reconciled = reconcileSpeakers(session.transcriptSegments, session.contextualChunks);
+
+  const changed = [...reconciled.keys()].filter((index) =>
+    reconciled.get(index)!.some(
+      (segment, i) => segment.speaker !== session.transcriptSegments.get(index)![i].speaker
+    )
+  );
+
+  if (changed.length === 0) {
+    return;
+  }
+
+  changed.forEach((index) => {
+    const segments = reconciled.get(index)!;
+    session.transcriptSegments.set(index, segments);
+    session.transcriptChunks.set(index, formatSegments(segments));
+  });
+
+  const { data: chunkRows, error: chunksError } = await supabase
+    .from('transcript_chunks')
+    .select('id, chunk_index')
+    .eq('session_id', sessionId)
+    .in('chunk_index', changed);
+
+  if (chunksError) {
+    console.error('Error loading chunks for speaker reconciliation:', chunksError);
+    return;
+  }
+
+  for (const row of chunkRows || []) {
+    const segments = reconciled.get(row.chunk_index)!;
+
+    await supabase
+      .from('transcript_chunks')
+      .update({ text: formatSegments(segments) })
+      .eq('id', row.id);
+
+    await supabase.from('transcript_segments').delete().eq('chunk_id', row.id);
+
+    await saveSegments(row.id, sessionId, row.chunk_index, segments);
+  }
+
+  console.log(`🗣️  Reconciled speaker labels in ${changed.length} chunks for ${sessionId}`);
+}
+
+/**
+ * Finalize a session: summarize what was transcribed and mark it `completed`,
+ * or mark it `failed` if nothing was transcribed
+ * Always removes the session from memory; rethrows processing errors after marking it failed
+ */
+export async function finalizeSession(io: Server, session: SessionData): Promise<void> {
+  const { sessionId } = session;
+  session.finalizing = true;
+
+  try {
+    // The media timeline already excludes paused time; the clock is only used when no chunk arrived
+    const endTime = session.pausedAt ?? Date.now();
+    const duration = session.mediaEndMs !== undefined
+      ? Math.round(session.mediaEndMs / 1000)
+      : Math.floor((endTime - session.startTime - session.totalPausedDuration) / 1000);
+
+    // Update status to processing
+    await supabase.from('sessions').update({
+      status: 'processing',
+      duration,
+      updated_at: new Date().toISOString(),
+    }).eq('id', sessionId);
+
+    io.to(sessionId).emit('session-status', {
+      status: 'processing',
+      sessionId,
+      timestamp: Date.now(),
+    });
+
+    console.log(`🔄 Processing session: ${sessionId}`);
+
+    // Wait for the final chunks to arrive and every transcription to settle
+    await drainTranscriptions(session, config.finalizeTimeoutMs);
+
+    // Keep the original audio for playback and re-transcription
+    await persistSessionAudio(session);
+
+    // Chunks were diarized independently; line their speaker labels up
+    await applySpeakerReconciliation(session);
+
+    // Combine all transcript chunks in recording order
+    const { text: fullTranscript, missingChunks } = assembleTranscript(
+      session.transcriptChunks,
+      expectedChunkCount(session)
+    );
+
+    if (missingChunks.length > 0) {
+      console.warn(`⚠️  Session ${sessionId} finalized without chunks: ${missingChunks.join(', ')}`);
+    }
+
+    if (session.transcriptChunks.size === 0) {
+      await markFailed(io, sessionId);
+      console.log(`⚠️  Session had no transcript, marked failed: ${sessionId}`);
+      return;
+    }
+
+    // Generate summary with the session's summarizer
+    const { summarizer, summaryData } = await summarizeTranscript(sessionId, fullTranscript, session.summarizer);
+
+    const speakers = collectSpeakers(session.transcriptSegments);
+
+    // Store full transcript and summary
+    const { error: transcriptError } = await supabase.from('transcripts').insert({
+      session_id: sessionId,
+      full_text: fullTranscript,
+      summary: toStoredSummary(summaryData),
+      summarizer: summarizer.name,
+      summarizer_version: summarizer.version,
+      speakers,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+
+    if (transcriptError) {
+      console.error('Error saving transcript:', transcriptError);
+    }
+
+    // Update session to completed
+    await supabase.from('sessions').update({
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }).eq('id', sessionId);
+
+    // Emit completion with summary
+    io.to(sessionId).emit('session-complete', {
+      sessionId,
+      duration,
+      transcript: fullTranscript,
+      summary: summaryData,
+      speakers,
+      summarizer: { name: summarizer.name, version: summarizer.version },
+      missingChunks,
+      timestamp: Date.now(),
+    });
+
+    console.log(`✅ Session completed: ${sessionId}`);
+  } catch (error) {
+    await markFailed(io, sessionId);
+    throw error;
+  } finally {
+    // Clean up
+    removeSession(session);
+    await session.audio.remove().catch((error) => {
+      console.error(`Error removing audio spool for ${sessionId}:`, error);
+    });
+  }
+}
+
+/**
+ * Mark a session as failed and notify its room
+ */
+export async function markFailed(io: Server, sessionId: string) {
+  await supabase.from('sessions').update({
+    status: 'failed',
+    updated_at: new Date().toISOString(),
+  }).eq('id', sessionId);
+
+  io.to(sessionId).emit('session-status', {
+    status: 'failed',
+    sessionId,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Fail sessions a previous run left recording, paused or processing
+ * Their in-memory state and spooled audio did not survive the restart, so they can never be finalized;
+ * chunks already transcribed stay readable
+ * @param startedBefore - Only sessions created before this run started
+ * @returns Number of sessions marked failed
+ */
+export async function failInterruptedSessions(io: Server, startedBefore: Date): Promise<number> {
+  const sessions = await fetchAllRows<Pick<Session, 'id'>>((from, to) =>
+    supabase
+      .from('sessions')
+      .select('id')
+      .in('status', ['recording', 'paused', 'processing'])
+      .lt('created_at', startedBefore.toISOString())
+      .order('created_at', { ascending: true })
+      .range(from, to)
+  );
+
+  const interrupted = sessions.filter(({ id }) => !activeSessions.has(id));
+  for (const { id } of interrupted) {
+    await markFailed(io, id);
+  }
+
+  return interrupted.length;
+}
@@ -0,0 +1,40 @@
+/**
+ * Orphaned session reaper
+ * Finalizes sessions whose recording socket went away and never came back
+ */
+
+import { Server } from 'socket.io';
+import { config } from '../lib/config';
+import { activeSessions } from './sessions';
+import { finalizeSession } from './finalize';
+
+/**
+ * Start the background reaper
+ * @returns Function that stops the reaper
+ */
+export function startSessionReaper(io: Server): () => void {
+  const timer = setInterval(() => {
+    const now = Date.now();
+
+    activeSessions.forEach((session, sessionId) => {
+      if (
+        session.finalizing ||
+        !session.pausedAt ||
+        !session.orphanedAt ||
+        now - session.orphanedAt < config.sessionGracePeriodMs
+      ) {
+        return;
+      }
+
+      console.log(`🧹 Reaping orphaned session: ${sessionId}`);
+      finalizeSession(io, session).catch((error) => {
+        console.error(`Error reaping session ${sessionId}:`, error);
+      });
+    });
+  }, config.reaperIntervalMs);
+
+  // Do not keep the process alive just for the reaper
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,154 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../lib/config';
+import { setupSocketHandlers } from './recording';
+import { activeSessions } from './sessions';
+import { enqueueTranscription } from './transcription';
+
+// Spool into a scratch directory
+vi.mock('../lib/config', async (importOriginal) => {
+  const os = await import('os');
+  const path = await import('path');
+  const { config } = await importOriginal<typeof import('../lib/config')>();
+  return { config: { ...config, audioSpoolDir: path.join(os.tmpdir(), `recording-spec-${process.pid}`) } };
+});
+
+// Every query succeeds with no rows
+vi.mock('../lib/supabase', () => {
+  const result = { data: null, error: null };
+  const query: Record<string, unknown> = {};
+  ['select', 'insert', 'update', 'delete', 'eq', 'gt', 'in', 'order', 'range'].forEach((method) => {
+    query[method] = () => query;
+  });
+  query.maybeSingle = async () => result;
+  query.single = async () => result;
+  query.then = (resolve: (value: typeof result) => void) => resolve(result);
+  return { supabase: { from: () => query }, fetchAllRows: async () => [] };
+});
+
+vi.mock('./transcription', () => ({
+  enqueueTranscription: vi.fn(() => Promise.resolve()),
+  saveSegments: vi.fn(),
+}));
+
+type ChunkAck = { ok: boolean; duplicate?: boolean; error?: string };
+
+describe('audio-chunk delivery', () => {
+  let io: Server;
+  let client: ClientSocket;
+  let sessionId: string;
+
+  beforeAll(async () => {
+    const httpServer = createServer();
+    io = new Server(httpServer);
+    io.use((socket, next) => {
+      socket.data.user = { id: 'user-1', email: 'user@example.com', name: null, sessionId: 'auth-session' };
+      next();
+    });
+    setupSocketHandlers(io);
+
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    const { port } = httpServer.address() as AddressInfo;
+
+    client = connect(`http://localhost:${port}`, { transports: ['websocket'] });
+    await new Promise<void>((resolve) => client.on('connect', resolve));
+  });
+
+  afterAll(async () => {
+    client.disconnect();
+    await new Promise((resolve) => io.close(resolve));
+    await fs.rm(config.audioSpoolDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    vi.mocked(enqueueTranscription).mockClear();
+    sessionId = randomUUID();
+
+    const started = new Promise((resolve) => client.once('session-status', resolve));
+    client.emit('start-session', { sessionId, audioSource: 'microphone', mimeType: 'audio/webm;codecs=opus' });
+    await started;
+  });
+
+  const sendChunk = (seq: number, body = `chunk ${seq}`): Promise<ChunkAck> =>
+    client.emitWithAck('audio-chunk', {
+      sessionId,
+      seq,
+      chunk: Buffer.from(body),
+      timestamp: Date.now(),
+      mediaStartMs: 0,
+      mediaEndMs: 0,
+    });
+
+  it('acknowledges a chunk once it is spooled and queues it for transcription', async () => {
+    expect(await sendChunk(0)).toEqual({ ok: true });
+
+    const session = activeSessions.get(sessionId)!;
+    expect(session.audio.chunkIndices()).toEqual([0]);
+    expect((await session.audio.read(0)).toString()).toBe('chunk 0');
+    await vi.waitFor(() => expect(enqueueTranscription).toHaveBeenCalledTimes(1));
+  });
+
+  it('acknowledges a replayed seq as a duplicate without storing or transcribing it again', async () => {
+    expect(await sendChunk(0)).toEqual({ ok: true });
+    expect(await sendChunk(0, 'retransmitted')).toEqual({ ok: true, duplicate: true });
+
+    const session = activeSessions.get(sessionId)!;
+    expect(session.audio.size()).toBe('chunk 0'.length);
+    await vi.waitFor(() => expect(enqueueTranscription).toHaveBeenCalledTimes(1));
+  });
+
+  it('treats a duplicate that arrives while the first copy is still being written as a duplicate', async () => {
+    const [first, second] = await Promise.all([sendChunk(1), sendChunk(1)]);
+
+    expect([first, second]).toEqual([{ ok: true }, { ok: true, duplicate: true }]);
+    expect(activeSessions.get(sessionId)!.audio.chunkIndices()).toEqual([1]);
+  });
+
+  it('accepts chunks out of order and keeps them in recording order', async () => {
+    expect(await sendChunk(1)).toEqual({ ok: true });
+    expect(await sendChunk(0)).toEqual({ ok: true });
+
+    expect(activeSessions.get(sessionId)!.audio.chunkIndices()).toEqual([0, 1]);
+  });
+
+  it('rejects invalid sequence numbers and unknown sessions', async () => {
+    expect(await sendChunk(-1)).toMatchObject({ ok: false });
+    expect(await sendChunk(1.5)).toMatchObject({ ok: false });
+
+    const ack: ChunkAck = await client.emitWithAck('audio-chunk', {
+      sessionId: randomUUID(),
+      seq: 0,
+      chunk: Buffer.from('x'),
+      timestamp: Date.now(),
+    });
+    expect(ack).toEqual({ ok: false, error: 'Session unavailable' });
+  });
+
+  it('rejects sequence numbers further ahead than the recording time allows', async () => {
+    expect(await sendChunk(1e9)).toEqual({ ok: false, error: 'Invalid sequence number' });
+    expect(activeSessions.get(sessionId)!.receivedSeqs.size).toBe(0);
+
+    // Ten minutes in, chunk 20 is plausible
+    activeSessions.get(sessionId)!.startTime -= 10 * 60 * 1000;
+    expect(await sendChunk(20)).toEqual({ ok: true });
+  });
+
+  it('ignores a pause for a session that is already paused', async () => {
+    const paused = new Promise((resolve) => client.once('session-status', resolve));
+    client.emit('pause-session', { sessionId });
+    await paused;
+    const session = activeSessions.get(sessionId)!;
+    const pausedAt = session.pausedAt;
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    client.emit('pause-session', { sessionId });
+    await sendChunk(-1); // Acknowledged only after the pause has been handled
+
+    expect(session.pausedAt).toBe(pausedAt);
+  });
+});
@@ -4,56 +4,275 @@
  */
 
 import { Server, Socket } from 'socket.io';
-import { supabase, Session, TranscriptChunk } from '../lib/supabase';
-import { transcribeAudioChunk, generateSummary } from '../lib/gemini';
-
-interface SessionData {
-  sessionId: string;
-  userId?: string;
-  audioChunks: Buffer[];
-  transcriptChunks: string[];
-  chunkIndex: number;
-  startTime: number;
-  pausedAt?: number;
-  totalPausedDuration: number;
-  audioSource: 'microphone' | 'tab_share';
+import { z } from 'zod';
+import { fetchAllRows, supabase, Session, TranscriptChunk } from '../lib/supabase';
+import { auditLog, AuditAction } from '../lib/audit';
+import {
+  defaultSummarizerName,
+  isSummarizerAvailable,
+  listSummarizers,
+} from '../lib/summarization';
+import { containerForMimeType, resolveMimeType } from '../lib/audioContainer';
+import { createAudioSpool } from '../lib/audioSpool';
+import { config } from '../lib/config';
+import { checkMediaSpan, legacyChunkSpan } from '../lib/mediaTimeline';
+import { getSocketUser } from './auth';
+import {
+  SessionData,
+  activeSessions,
+  attachSessionToSocket,
+  notifyChunkArrival,
+  reassignSessionSocket,
+  maxPlausibleSeq,
+  recordedElapsedMs,
+  releaseSocketSessions,
+  removeSession,
+  trackTranscription,
+  userRoom,
+} from './sessions';
+import { finalizeSession } from './finalize';
+import { enqueueTranscription } from './transcription';
+
+export type SocketErrorCode = 'not_found' | 'forbidden' | 'conflict' | 'invalid_request' | 'internal';
+
+/**
+ * Whether a client-reported MIME type looks like `type/subtype` with optional parameters
+ */
+function isValidMimeType(mimeType: unknown): mimeType is string {
+  return typeof mimeType === 'string' && mimeType.length <= 100 && /^[\w.+-]+\/[\w.+-]+(\s*;.*)?$/.test(mimeType);
+}
+
+/**
+ * Emit a typed error to a single socket
+ */
+function emitError(
+  socket: Socket,
+  code: SocketErrorCode,
+  message: string,
+  sessionId?: string
+) {
+  socket.emit('error', { code, message, sessionId });
+}
+
+/**
+ * Reject a request for someone else's session and record it in the audit log
+ */
+function denyAccess(
+  socket: Socket,
+  action: AuditAction,
+  sessionId: string,
+  reason: string,
+  ownerId?: string
+) {
+  auditLog({
+    event: 'authorization_denied',
+    action,
+    userId: getSocketUser(socket).id,
+    socketId: socket.id,
+    sessionId,
+    ownerId,
+    reason,
+  });
+  emitError(socket, 'forbidden', 'You do not have access to this session', sessionId);
+}
+
+/**
+ * Look up an active session and verify the socket's user owns it
+ * Emits `not_found` or `forbidden` and returns null when the check fails
+ * @param requireOwningSocket - Also require the socket that started the session
+ */
+function authorizeSession(
+  socket: Socket,
+  sessionId: string,
+  action: AuditAction,
+  requireOwningSocket = false
+): SessionData | null {
+  const session = activeSessions.get(sessionId);
+
+  if (!session) {
+    emitError(socket, 'not_found', 'Session not found', sessionId);
+    return null;
+  }
+
+  if (session.userId !== getSocketUser(socket).id) {
+    denyAccess(socket, action, sessionId, 'not session owner', session.userId);
+    return null;
+  }
+
+  if (requireOwningSocket && session.socketId !== socket.id) {
+    denyAccess(socket, action, sessionId, 'not the recording socket', session.userId);
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Resume a paused session and broadcast the new status
+ */
+async function resumeSession(io: Server, session: SessionData) {
+  const { sessionId } = session;
+
+  if (session.pausedAt) {
+    const pausedFor = Date.now() - session.pausedAt;
+    session.totalPausedDuration += pausedFor;
+    if (!session.autoPaused) {
+      session.userPausedDuration += pausedFor;
+    }
+    session.pausedAt = undefined;
+  }
+  session.autoPaused = false;
+
+  // Update database
+  await supabase.from('sessions').update({
+    status: 'recording',
+    updated_at: new Date().toISOString(),
+  }).eq('id', sessionId);
+
+  io.to(sessionId).emit('session-status', {
+    status: 'recording',
+    sessionId,
+    timestamp: Date.now(),
+  });
 }
 
-// Store active sessions in memory
-const activeSessions = new Map<string, SessionData>();
+/**
+ * Send a socket the transcription updates it missed after `lastChunkIndex`
+ */
+async function replayMissedChunks(socket: Socket, sessionId: string, lastChunkIndex: number) {
+  const chunks = await fetchAllRows((from, to) =>
+    supabase
+      .from('transcript_chunks')
+      .select('chunk_index, text, timestamp, media_start_ms, media_end_ms, confidence, transcript_segments(segment_index, speaker, text, start_ms, end_ms)')
+      .eq('session_id', sessionId)
+      .gt('chunk_index', lastChunkIndex)
+      .order('chunk_index', { ascending: true })
+      .range(from, to)
+  );
+
+  chunks.forEach((chunk) => {
+    socket.emit('transcription-update', {
+      sessionId,
+      chunkIndex: chunk.chunk_index,
+      text: chunk.text,
+      segments: (chunk.transcript_segments || [])
+        .sort((a, b) => a.segment_index - b.segment_index)
+        .map((segment) => ({
+          speaker: segment.speaker ?? undefined,
+          text: segment.text,
+          startMs: segment.start_ms,
+          endMs: segment.end_ms,
+        })),
+      timestamp: Number(chunk.timestamp),
+      mediaStartMs: chunk.media_start_ms ?? legacyChunkSpan(chunk.chunk_index).startMs,
+      mediaEndMs: chunk.media_end_ms ?? legacyChunkSpan(chunk.chunk_index).endMs,
+      confidence: chunk.confidence ?? undefined,
+    });
+  });
+
+  return chunks.length;
+}
 
 /**
  * Setup all Socket.io event handlers
  */
 export function setupSocketHandlers(io: Server) {
   io.on('connection', (socket: Socket) => {
-    console.log(`✅ Client connected: ${socket.id}`);
+    const user = getSocketUser(socket);
+    console.log(`✅ Client connected: ${socket.id} (user ${user.id})`);
+
+    // Lets server-side work such as uploads reach all of the user's sockets
+    socket.join(userRoom(user.id));
+
+    /**
+     * List the summarizers a session can choose from
+     */
+    socket.on('list-summarizers', (ack?: (response: {
+      summarizers: { name: string; version: string }[];
+      defaultSummarizer: string;
+    }) => void) => {
+      ack?.({ summarizers: listSummarizers(), defaultSummarizer: defaultSummarizerName() });
+    });
 
     /**
      * Start new recording session
      */
     socket.on('start-session', async (data: {
       sessionId: string;
-      userId?: string;
       audioSource: 'microphone' | 'tab_share';
       title?: string;
+      summarizer?: string;
+      mimeType?: string; // MediaRecorder.mimeType, e.g. `video/webm;codecs=vp8,opus`
     }) => {
       try {
-        const { sessionId, userId, audioSource, title } = data;
+        const { sessionId, audioSource, title } = data;
+        const userId = user.id;
+
+        // The id names the session's spool and queue files, so it must be a UUID
+        if (!z.uuid().safeParse(sessionId).success) {
+          emitError(socket, 'invalid_request', 'Session id must be a UUID');
+          return;
+        }
+
+        if (data.mimeType !== undefined && !isValidMimeType(data.mimeType)) {
+          emitError(socket, 'invalid_request', 'Invalid audio MIME type', sessionId);
+          return;
+        }
+        const container = containerForMimeType(data.mimeType ?? '');
+
+        if (data.summarizer && !isSummarizerAvailable(data.summarizer)) {
+          emitError(socket, 'invalid_request', `Summarizer "${data.summarizer}" is not available`, sessionId);
+          return;
+        }
+        const summarizer = data.summarizer || defaultSummarizerName();
+
+        const existing = activeSessions.get(sessionId);
+        if (existing) {
+          if (existing.userId !== userId) {
+            denyAccess(socket, 'start-session', sessionId, 'session id in use', existing.userId);
+          } else {
+            emitError(socket, 'conflict', 'Session already started', sessionId);
+          }
+          return;
+        }
+
+        // Session ids are client-generated, so refuse ids that already exist for another user
+        const { data: stored } = await supabase
+          .from('sessions')
+          .select('user_id')
+          .eq('id', sessionId)
+          .maybeSingle();
+
+        if (stored) {
+          denyAccess(socket, 'start-session', sessionId, 'session id in use', stored.user_id ?? undefined);
+          return;
+        }
 
         // Initialize session data
         const sessionData: SessionData = {
           sessionId,
           userId,
-          audioChunks: [],
-          transcriptChunks: [],
-          chunkIndex: 0,
+          socketId: socket.id,
+          audio: createAudioSpool(config.audioSpoolDir, sessionId),
+          transcriptChunks: new Map(),
+          transcriptSegments: new Map(),
+          contextualChunks: new Set(),
+          receivedSeqs: new Set(),
+          pendingTranscriptions: new Map(),
+          chunkWaiters: [],
           startTime: Date.now(),
           totalPausedDuration: 0,
+          userPausedDuration: 0,
           audioSource,
+          mimeType: resolveMimeType(data.mimeType, container),
+          container,
+          summarizer,
+          autoPaused: false,
+          finalizing: false,
         };
 
         activeSessions.set(sessionId, sessionData);
+        attachSessionToSocket(socket.id, sessionId);
 
         // Create session in database
         const { error } = await supabase.from('sessions').insert({
@@ -69,6 +288,10 @@ export function setupSocketHandlers(io: Server) {
 
         if (error) {
           console.error('Database error creating session:', error);
+          removeSession(sessionData);
+          await sessionData.audio.remove();
+          emitError(socket, 'invalid_request', 'Failed to create session', sessionId);
+          return;
         }
 
         socket.join(sessionId);
@@ -78,10 +301,10 @@ export function setupSocketHandlers(io: Server) {
           timestamp: Date.now(),
         });
 
-        console.log(`📝 Session started: ${sessionId} (${audioSource})`);
+        console.log(`📝 Session started: ${sessionId} (${audioSource}, summarizer ${summarizer})`);
       } catch (error) {
         console.error('Error starting session:', error);
-        socket.emit('error', { message: 'Failed to start session' });
+        emitError(socket, 'internal', 'Failed to start session', data.sessionId);
       }
     });
 
@@ -90,69 +313,91 @@ export function setupSocketHandlers(io: Server) {
      */
     socket.on('audio-chunk', async (data: {
       sessionId: string;
+      seq: number;
       chunk: ArrayBuffer;
       timestamp: number;
-    }) => {
+      mediaStartMs?: number; // Offsets into the recording with paused time removed
+      mediaEndMs?: number;
+    }, ack?: (response: { ok: boolean; duplicate?: boolean; error?: string }) => void) => {
       try {
-        const { sessionId, chunk, timestamp } = data;
-        const session = activeSessions.get(sessionId);
+        const { sessionId, seq, chunk, timestamp } = data;
+
+        if (!Number.isInteger(seq) || seq < 0) {
+          ack?.({ ok: false, error: 'Invalid sequence number' });
+          return;
+        }
+
+        const session = authorizeSession(socket, sessionId, 'audio-chunk', true);
 
         if (!session) {
-          socket.emit('error', { message: 'Session not found' });
+          ack?.({ ok: false, error: 'Session unavailable' });
           return;
         }
 
+        // A recorder cannot be further ahead than the time it has been recording
+        if (seq > maxPlausibleSeq(session)) {
+          ack?.({ ok: false, error: 'Invalid sequence number' });
+          return;
+        }
+
+        // Retransmissions after a reconnect may repeat chunks we already have
+        if (session.receivedSeqs.has(seq)) {
+          ack?.({ ok: true, duplicate: true });
+          return;
+        }
+        session.receivedSeqs.add(seq);
+
+        // The client's sequence number is the chunk's position in the recording
+        const chunkIndex = seq;
         const buffer = Buffer.from(chunk);
-        session.audioChunks.push(buffer);
 
-        // Process transcription for this chunk
-        const chunkIndex = session.chunkIndex++;
-        
+        // Place the chunk by the recorder's media clock, unless it disagrees with when it arrived
+        let span = checkMediaSpan(data.mediaStartMs, data.mediaEndMs, recordedElapsedMs(session));
+        if (!span) {
+          console.warn(
+            `⚠️  Chunk ${chunkIndex} for ${sessionId} has implausible media offsets ` +
+              `(${data.mediaStartMs}-${data.mediaEndMs}ms, ${recordedElapsedMs(session)}ms recorded); using fixed slices`
+          );
+          span = legacyChunkSpan(chunkIndex);
+        }
+
+        // Finalization waits on the chunk from the moment it is accepted: its append, then its transcription
+        const appended = session.audio.append(chunkIndex, buffer);
+        const job = appended.then(
+          () =>
+            enqueueTranscription(
+              io,
+              session,
+              chunkIndex,
+              { timestamp, mediaStartMs: span.startMs, mediaEndMs: span.endMs },
+              buffer
+            ),
+          () => undefined // Not acknowledged, so the client retransmits it
+        );
+        trackTranscription(session, chunkIndex, job);
+
+        // Only acknowledge once the chunk is on disk; the client keeps it until then
+        try {
+          await appended;
+        } catch (spoolError) {
+          session.receivedSeqs.delete(seq);
+          throw spoolError;
+        }
+        ack?.({ ok: true });
+
         // Emit processing status
         io.to(sessionId).emit('chunk-processing', {
           chunkIndex,
           timestamp,
+          mediaStartMs: span.startMs,
+          mediaEndMs: span.endMs,
         });
 
-        // Transcribe chunk (async)
-        transcribeAudioChunk(buffer, chunkIndex)
-          .then(async (result) => {
-            session.transcriptChunks.push(result.text);
-
-            // Store chunk in database
-            const { error } = await supabase.from('transcript_chunks').insert({
-              session_id: sessionId,
-              chunk_index: chunkIndex,
-              text: result.text,
-              timestamp,
-              confidence: result.confidence,
-              created_at: new Date().toISOString(),
-            });
-
-            if (error) {
-              console.error('Error saving transcript chunk:', error);
-            }
-
-            // Emit live transcription update
-            io.to(sessionId).emit('transcription-update', {
-              chunkIndex,
-              text: result.text,
-              timestamp,
-              confidence: result.confidence,
-            });
-
-            console.log(`📄 Chunk ${chunkIndex} transcribed for ${sessionId}`);
-          })
-          .catch((error) => {
-            console.error(`Error transcribing chunk ${chunkIndex}:`, error);
-            io.to(sessionId).emit('transcription-error', {
-              chunkIndex,
-              error: error.message,
-            });
-          });
+        notifyChunkArrival(session);
       } catch (error) {
         console.error('Error processing audio chunk:', error);
-        socket.emit('error', { message: 'Failed to process audio chunk' });
+        emitError(socket, 'internal', 'Failed to process audio chunk', data.sessionId);
+        ack?.({ ok: false, error: 'Failed to process audio chunk' });
       }
     });
 
@@ -162,14 +407,19 @@ export function setupSocketHandlers(io: Server) {
     socket.on('pause-session', async (data: { sessionId: string }) => {
       try {
         const { sessionId } = data;
-        const session = activeSessions.get(sessionId);
+        const session = authorizeSession(socket, sessionId, 'pause-session');
 
         if (!session) {
-          socket.emit('error', { message: 'Session not found' });
+          return;
+        }
+
+        // A repeated pause would restart the pause clock and lose the time already paused
+        if (session.pausedAt && !session.autoPaused) {
           return;
         }
 
         session.pausedAt = Date.now();
+        session.autoPaused = false;
 
         // Update database
         await supabase.from('sessions').update({
@@ -186,7 +436,7 @@ export function setupSocketHandlers(io: Server) {
         console.log(`⏸️  Session paused: ${sessionId}`);
       } catch (error) {
         console.error('Error pausing session:', error);
-        socket.emit('error', { message: 'Failed to pause session' });
+        emitError(socket, 'internal', 'Failed to pause session', data.sessionId);
       }
     });
 
@@ -196,125 +446,118 @@ export function setupSocketHandlers(io: Server) {
     socket.on('resume-session', async (data: { sessionId: string }) => {
       try {
         const { sessionId } = data;
-        const session = activeSessions.get(sessionId);
+        const session = authorizeSession(socket, sessionId, 'resume-session');
 
         if (!session) {
-          socket.emit('error', { message: 'Session not found' });
           return;
         }
 
-        if (session.pausedAt) {
-          session.totalPausedDuration += Date.now() - session.pausedAt;
-          session.pausedAt = undefined;
-        }
-
-        // Update database
-        await supabase.from('sessions').update({
-          status: 'recording',
-          updated_at: new Date().toISOString(),
-        }).eq('id', sessionId);
-
-        io.to(sessionId).emit('session-status', {
-          status: 'recording',
-          sessionId,
-          timestamp: Date.now(),
-        });
+        await resumeSession(io, session);
 
         console.log(`▶️  Session resumed: ${sessionId}`);
       } catch (error) {
         console.error('Error resuming session:', error);
-        socket.emit('error', { message: 'Failed to resume session' });
+        emitError(socket, 'internal', 'Failed to resume session', data.sessionId);
       }
     });
 
     /**
      * Stop recording and process final summary
      */
-    socket.on('stop-session', async (data: { sessionId: string }) => {
+    socket.on('stop-session', async (data: { sessionId: string; chunkCount?: number }) => {
       try {
         const { sessionId } = data;
-        const session = activeSessions.get(sessionId);
+        const session = authorizeSession(socket, sessionId, 'stop-session');
 
         if (!session) {
-          socket.emit('error', { message: 'Session not found' });
           return;
         }
 
-        // Calculate total duration
-        const duration = Math.floor(
-          (Date.now() - session.startTime - session.totalPausedDuration) / 1000
-        );
-
-        // Update status to processing
-        await supabase.from('sessions').update({
-          status: 'processing',
-          duration,
-          updated_at: new Date().toISOString(),
-        }).eq('id', sessionId);
-
-        io.to(sessionId).emit('session-status', {
-          status: 'processing',
-          sessionId,
-          timestamp: Date.now(),
-        });
-
-        console.log(`🔄 Processing session: ${sessionId}`);
-
-        // Wait a bit for final chunks to process
-        await new Promise(resolve => setTimeout(resolve, 2000));
-
-        // Combine all transcript chunks
-        const fullTranscript = session.transcriptChunks.join(' ');
-
-        // Generate summary
-        const summaryData = await generateSummary(fullTranscript);
-
-        // Store full transcript and summary
-        const { error: transcriptError } = await supabase.from('transcripts').insert({
-          session_id: sessionId,
-          full_text: fullTranscript,
-          summary: JSON.stringify(summaryData),
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        });
-
-        if (transcriptError) {
-          console.error('Error saving transcript:', transcriptError);
+        if (session.finalizing) {
+          emitError(socket, 'conflict', 'Session is already being processed', sessionId);
+          return;
         }
 
-        // Update session to completed
-        await supabase.from('sessions').update({
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        }).eq('id', sessionId);
-
-        // Emit completion with summary
-        io.to(sessionId).emit('session-complete', {
-          sessionId,
-          duration,
-          transcript: fullTranscript,
-          summary: summaryData,
-          timestamp: Date.now(),
-        });
-
-        console.log(`✅ Session completed: ${sessionId}`);
+        // Chunks the recorder flushed on stop may still be in flight, up to what its recording time allows
+        if (Number.isInteger(data.chunkCount) && data.chunkCount! >= 0) {
+          session.expectedChunkCount = Math.min(data.chunkCount!, maxPlausibleSeq(session) + 1);
+        }
 
-        // Clean up
-        activeSessions.delete(sessionId);
+        await finalizeSession(io, session);
       } catch (error) {
         console.error('Error stopping session:', error);
-        
-        // Mark as failed
-        const session = activeSessions.get(data.sessionId);
+        emitError(socket, 'internal', 'Failed to complete session processing', data.sessionId);
+      }
+    });
+
+    /**
+     * Rejoin a session after a reconnect and replay missed events
+     */
+    socket.on('rejoin-session', async (
+      data: { sessionId: string; lastChunkIndex: number },
+      ack?: (response: { ok: boolean; status?: string }) => void
+    ) => {
+      try {
+        const { sessionId } = data;
+        const lastChunkIndex = Number.isInteger(data.lastChunkIndex) ? data.lastChunkIndex : -1;
+        const session = activeSessions.get(sessionId);
+        let status: string;
+
         if (session) {
-          await supabase.from('sessions').update({
-            status: 'failed',
-            updated_at: new Date().toISOString(),
-          }).eq('id', data.sessionId);
+          if (session.userId !== user.id) {
+            denyAccess(socket, 'rejoin-session', sessionId, 'not session owner', session.userId);
+            ack?.({ ok: false });
+            return;
+          }
+
+          // Join before replaying so nothing emitted in between is lost (the client dedupes)
+          reassignSessionSocket(session, socket.id);
+          socket.join(sessionId);
+          status = session.finalizing ? 'processing' : session.pausedAt ? 'paused' : 'recording';
+        } else {
+          // Session already finalized (or server restarted): replay from the database
+          const { data: stored } = await supabase
+            .from('sessions')
+            .select('user_id, status')
+            .eq('id', sessionId)
+            .maybeSingle();
+
+          if (!stored) {
+            emitError(socket, 'not_found', 'Session not found', sessionId);
+            ack?.({ ok: false });
+            return;
+          }
+
+          if (stored.user_id !== user.id) {
+            denyAccess(socket, 'rejoin-session', sessionId, 'not session owner', stored.user_id ?? undefined);
+            ack?.({ ok: false });
+            return;
+          }
+
+          socket.join(sessionId);
+          status = stored.status;
         }
 
-        socket.emit('error', { message: 'Failed to complete session processing' });
+        const replayed = await replayMissedChunks(socket, sessionId, lastChunkIndex);
+
+        // The owner came back within the grace period: undo the disconnect auto-pause
+        if (session && session.autoPaused && !session.finalizing) {
+          await resumeSession(io, session);
+          status = 'recording';
+        } else {
+          socket.emit('session-status', {
+            status,
+            sessionId,
+            timestamp: Date.now(),
+          });
+        }
+
+        console.log(`🔁 Socket ${socket.id} rejoined ${sessionId} (${replayed} chunks replayed)`);
+        ack?.({ ok: true, status });
+      } catch (error) {
+        console.error('Error rejoining session:', error);
+        emitError(socket, 'internal', 'Failed to rejoin session', data.sessionId);
+        ack?.({ ok: false });
       }
     });
 
@@ -323,17 +566,24 @@ export function setupSocketHandlers(io: Server) {
      */
     socket.on('disconnect', () => {
       console.log(`❌ Client disconnected: ${socket.id}`);
-      
-      // Handle orphaned sessions (auto-pause if recording)
-      activeSessions.forEach((session, sessionId) => {
-        if (!session.pausedAt) {
+
+      // Auto-pause only the sessions this socket was recording
+      releaseSocketSessions(socket.id).forEach((session) => {
+        session.orphanedAt = Date.now();
+
+        if (!session.pausedAt && !session.finalizing) {
           session.pausedAt = Date.now();
+          session.autoPaused = true;
           supabase.from('sessions').update({
             status: 'paused',
             updated_at: new Date().toISOString(),
-          }).eq('id', sessionId);
-          
-          console.log(`⚠️  Auto-paused orphaned session: ${sessionId}`);
+          }).eq('id', session.sessionId).then(({ error }) => {
+            if (error) {
+              console.error('Error auto-pausing session:', error);
+            }
+          });
+
+          console.log(`⚠️  Auto-paused orphaned session: ${session.sessionId}`);
         }
       });
     });
@@ -0,0 +1,145 @@
+/**
+ * In-memory state for active recording sessions
+ * Tracks session data and which sessions each socket is recording
+ */
+
+import type { TranscriptSegment } from '../lib/transcription';
+import type { AudioContainer } from '../lib/audioContainer';
+import type { AudioSpool } from '../lib/audioSpool';
+import type { AudioSource } from '../lib/supabase';
+import { CHUNK_DURATION_MS } from '../lib/transcript';
+
+// Chunks a recorder may run ahead of the server's clock (timer jitter, the final partial slice)
+const SEQ_SLACK_CHUNKS = 2;
+
+export interface SessionData {
+  sessionId: string;
+  userId: string; // Owning user
+  socketId: string; // Socket that is streaming audio for this session ('' for uploads)
+  audio: AudioSpool; // Raw chunks spooled to disk, promoted to permanent storage on finalize
+  transcriptChunks: Map<number, string>; // Transcript text keyed by chunk index
+  transcriptSegments: Map<number, TranscriptSegment[]>; // Diarized segments keyed by chunk index
+  contextualChunks: Set<number>; // Chunks diarized with earlier speakers as context
+  receivedSeqs: Set<number>; // Chunk sequence numbers already accepted, for dedupe
+  pendingTranscriptions: Map<number, Promise<void>>; // In-flight chunks (spool append, then transcription) by index
+  expectedChunkCount?: number; // Total chunks the client produced, reported by stop-session
+  chunkWaiters: Array<() => void>; // Resolved whenever a new chunk arrives
+  startTime: number;
+  pausedAt?: number;
+  orphanedAt?: number; // Set when the recording socket disconnects
+  autoPaused: boolean; // Paused by a disconnect rather than by the user
+  totalPausedDuration: number;
+  userPausedDuration: number; // Paused by the user; disconnect auto-pauses are not included
+  mediaEndMs?: number; // Furthest media offset of any received chunk
+  audioSource: AudioSource;
+  mimeType: string; // Audio MIME type sent to the transcription provider
+  container: AudioContainer;
+  initSegment?: Buffer; // Container header from the first chunk, prepended to later chunks
+  summarizer: string; // Summarizer chosen for this session
+  finalizing: boolean;
+}
+
+// Store active sessions in memory
+export const activeSessions = new Map<string, SessionData>();
+
+// Session ids owned by each connected socket
+const socketSessions = new Map<string, Set<string>>();
+
+/**
+ * Room every socket of a user joins, for events that are not tied to one recording socket
+ */
+export function userRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
+/**
+ * Recording time the client can have captured by `now`, by the server's clock
+ * Disconnect auto-pauses are counted: the recorder keeps running while the socket is away
+ */
+export function recordedElapsedMs(session: SessionData, now = Date.now()): number {
+  const currentPause = session.pausedAt && !session.autoPaused ? now - session.pausedAt : 0;
+  return now - session.startTime - session.userPausedDuration - currentPause;
+}
+
+/**
+ * Highest chunk sequence number the recorder can have produced by `now`
+ */
+export function maxPlausibleSeq(session: SessionData, now = Date.now()): number {
+  return Math.floor(recordedElapsedMs(session, now) / CHUNK_DURATION_MS) + SEQ_SLACK_CHUNKS;
+}
+
+/**
+ * Record that a socket is streaming a session
+ */
+export function attachSessionToSocket(socketId: string, sessionId: string) {
+  let sessionIds = socketSessions.get(socketId);
+  if (!sessionIds) {
+    sessionIds = new Set();
+    socketSessions.set(socketId, sessionIds);
+  }
+  sessionIds.add(sessionId);
+}
+
+/**
+ * Forget a socket's claim on a session
+ */
+export function detachSessionFromSocket(socketId: string, sessionId: string) {
+  const sessionIds = socketSessions.get(socketId);
+  if (!sessionIds) return;
+
+  sessionIds.delete(sessionId);
+  if (sessionIds.size === 0) {
+    socketSessions.delete(socketId);
+  }
+}
+
+/**
+ * Remove and return the active sessions a socket was streaming
+ */
+export function releaseSocketSessions(socketId: string): SessionData[] {
+  const sessionIds = socketSessions.get(socketId);
+  socketSessions.delete(socketId);
+
+  if (!sessionIds) {
+    return [];
+  }
+
+  return [...sessionIds]
+    .map((sessionId) => activeSessions.get(sessionId))
+    .filter((session): session is SessionData => !!session && session.socketId === socketId);
+}
+
+/**
+ * Move a session to a new recording socket (e.g. after a reconnect)
+ */
+export function reassignSessionSocket(session: SessionData, socketId: string) {
+  detachSessionFromSocket(session.socketId, session.sessionId);
+  session.socketId = socketId;
+  session.orphanedAt = undefined;
+  attachSessionToSocket(socketId, session.sessionId);
+}
+
+/**
+ * Track an in-flight transcription until it settles
+ */
+export function trackTranscription(session: SessionData, chunkIndex: number, job: Promise<void>) {
+  session.pendingTranscriptions.set(chunkIndex, job);
+  job.finally(() => session.pendingTranscriptions.delete(chunkIndex));
+}
+
+/**
+ * Wake up anything waiting for a session's next chunk
+ */
+export function notifyChunkArrival(session: SessionData) {
+  const waiters = session.chunkWaiters;
+  session.chunkWaiters = [];
+  waiters.forEach((resolve) => resolve());
+}
+
+/**
+ * Remove a session from memory once it has been finalized
+ */
+export function removeSession(session: SessionData) {
+  detachSessionFromSocket(session.socketId, session.sessionId);
+  activeSessions.delete(session.sessionId);
+}
@@ -0,0 +1,223 @@
+/**
+ * Chunk transcription pipeline
+ * Connects the transcription queue to session state, the database and room broadcasts
+ */
+
+import { Server } from 'socket.io';
+import { supabase } from '../lib/supabase';
+import { config } from '../lib/config';
+import { TranscriptSegment, TranscriptionProvider } from '../lib/transcription';
+import { createTranscriptionQueue, TranscriptionJob, TranscriptionQueue } from '../lib/transcriptionQueue';
+import { speakerContext } from '../lib/speakers';
+import {
+  detectContainer,
+  extractInitSegment,
+  resolveMimeType,
+  toStandaloneChunk,
+} from '../lib/audioContainer';
+import { SessionData, activeSessions } from './sessions';
+
+let queue: TranscriptionQueue | null = null;
+
+/**
+ * When a chunk was recorded: client wall clock and position on the media timeline
+ */
+export type ChunkTiming = Pick<TranscriptionJob, 'timestamp' | 'mediaStartMs' | 'mediaEndMs'>;
+
+/**
+ * Store a chunk's diarized segments
+ */
+export async function saveSegments(
+  chunkId: string,
+  sessionId: string,
+  chunkIndex: number,
+  segments: TranscriptSegment[]
+): Promise<void> {
+  const { error } = await supabase.from('transcript_segments').insert(
+    segments.map((segment, segmentIndex) => ({
+      chunk_id: chunkId,
+      session_id: sessionId,
+      chunk_index: chunkIndex,
+      segment_index: segmentIndex,
+      speaker: segment.speaker ?? null,
+      text: segment.text,
+      start_ms: Math.round(segment.startMs),
+      end_ms: Math.round(segment.endMs),
+    }))
+  );
+
+  if (error) {
+    console.error(`Error saving transcript segments for chunk ${chunkIndex}:`, error);
+  }
+}
+
+/**
+ * Create the queue and resume jobs left over from a previous run
+ * @returns Function that stops scheduling new attempts
+ */
+export function startTranscriptionQueue(io: Server, provider: TranscriptionProvider): () => void {
+  const transcriptionQueue = createTranscriptionQueue({
+    directory: config.transcriptionQueueDir,
+    concurrency: config.transcriptionConcurrency,
+    perUserConcurrency: config.transcriptionConcurrencyPerUser,
+    maxAttempts: config.transcriptionMaxAttempts,
+    retryBaseMs: config.transcriptionRetryBaseMs,
+    retryMaxMs: config.transcriptionRetryMaxMs,
+
+    transcribe: (audio, job) => {
+      // Carry speaker labels over from chunks that are already done
+      const session = activeSessions.get(job.sessionId);
+      const context = session
+        ? speakerContext(session.transcriptSegments, session.contextualChunks, job.chunkIndex)
+        : undefined;
+      if (session && context) {
+        session.contextualChunks.add(job.chunkIndex);
+      }
+
+      return provider.transcribe({ audio, mimeType: job.mimeType, chunkIndex: job.chunkIndex, context });
+    },
+
+    onSuccess: async (job, result) => {
+      const { sessionId, chunkIndex, timestamp, mediaStartMs, mediaEndMs } = job;
+
+      const segments = result.segments ?? [];
+
+      // Keyed by index: responses can come back in any order
+      const session = activeSessions.get(sessionId);
+      session?.transcriptChunks.set(chunkIndex, result.text);
+      session?.transcriptSegments.set(chunkIndex, segments);
+
+      // Store chunk in database
+      const { data: chunkRow, error } = await supabase
+        .from('transcript_chunks')
+        .insert({
+          session_id: sessionId,
+          chunk_index: chunkIndex,
+          text: result.text,
+          timestamp,
+          media_start_ms: mediaStartMs,
+          media_end_ms: mediaEndMs,
+          confidence: result.confidence,
+          created_at: new Date().toISOString(),
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('Error saving transcript chunk:', error);
+      } else if (segments.length > 0) {
+        await saveSegments(chunkRow.id, sessionId, chunkIndex, segments);
+      }
+
+      // Emit live transcription update
+      io.to(sessionId).emit('transcription-update', {
+        sessionId,
+        chunkIndex,
+        text: result.text,
+        segments,
+        timestamp,
+        mediaStartMs,
+        mediaEndMs,
+        confidence: result.confidence,
+      });
+
+      console.log(`📄 Chunk ${chunkIndex} transcribed for ${sessionId}`);
+    },
+
+    onRetry: (job, delayMs, error) => {
+      console.warn(
+        `🔁 Retrying chunk ${job.chunkIndex} for ${job.sessionId} in ${delayMs}ms (attempt ${job.attempts}): ${error}`
+      );
+      io.to(job.sessionId).emit('chunk-retrying', {
+        sessionId: job.sessionId,
+        chunkIndex: job.chunkIndex,
+        attempt: job.attempts,
+        retryInMs: delayMs,
+        error,
+      });
+    },
+
+    onFailure: (job, error) => {
+      console.error(`Error transcribing chunk ${job.chunkIndex} for ${job.sessionId}:`, error);
+      io.to(job.sessionId).emit('chunk-failed', {
+        sessionId: job.sessionId,
+        chunkIndex: job.chunkIndex,
+        attempts: job.attempts,
+        error,
+      });
+    },
+  });
+
+  queue = transcriptionQueue;
+  console.log(`🗣️  Transcription provider: ${provider.name}`);
+
+  transcriptionQueue
+    .restore()
+    .then((restored) => {
+      if (restored > 0) {
+        console.log(`♻️  Restored ${restored} transcription jobs`);
+      }
+    })
+    .catch((error) => {
+      console.error('Error restoring transcription jobs:', error);
+    });
+
+  return () => transcriptionQueue.stop();
+}
+
+/**
+ * Make a chunk decodable on its own
+ * The first chunk carries the container header, which is kept and prepended to every later chunk
+ */
+function prepareChunkAudio(session: SessionData, chunkIndex: number, audio: Buffer): Buffer {
+  const container = detectContainer(audio);
+
+  if (container !== 'unknown') {
+    if (!session.initSegment) {
+      session.container = container;
+      session.mimeType = resolveMimeType(session.mimeType, container);
+      session.initSegment = extractInitSegment(audio, container) ?? undefined;
+    }
+    return audio;
+  }
+
+  if (!session.initSegment) {
+    console.warn(`⚠️  Chunk ${chunkIndex} for ${session.sessionId} arrived before the container header`);
+    return audio;
+  }
+
+  return toStandaloneChunk(audio, session.initSegment, session.container);
+}
+
+/**
+ * Queue a received chunk for transcription
+ * @returns Promise that settles once the chunk is transcribed or has permanently failed
+ */
+export function enqueueTranscription(
+  io: Server,
+  session: SessionData,
+  chunkIndex: number,
+  timing: ChunkTiming,
+  audio: Buffer
+): Promise<void> {
+  if (!queue) {
+    return Promise.reject(new Error('Transcription queue not started'));
+  }
+
+  const { sessionId, userId } = session;
+  const standalone = prepareChunkAudio(session, chunkIndex, audio);
+  session.mediaEndMs = Math.max(session.mediaEndMs ?? 0, timing.mediaEndMs);
+
+  return queue
+    .enqueue({ sessionId, userId, chunkIndex, ...timing, mimeType: session.mimeType }, standalone)
+    .catch((error) => {
+      // The job could not even be persisted, so it will never run
+      console.error(`Error queueing chunk ${chunkIndex} for ${sessionId}:`, error);
+      io.to(sessionId).emit('chunk-failed', {
+        sessionId,
+        chunkIndex,
+        attempts: 0,
+        error: 'Failed to queue chunk for transcription',
+      });
+    });
+}
@@ -0,0 +1,183 @@
+/**
+ * Uploaded recording pipeline
+ * Splits an uploaded file into chunks and runs them through the same transcription queue and
+ * finalization as live sessions, reporting progress to the session room
+ */
+
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { Server } from 'socket.io';
+import { supabase } from '../lib/supabase';
+import { config } from '../lib/config';
+import { createAudioSpool } from '../lib/audioSpool';
+import { CHUNK_MIME_TYPE, probeDuration, splitAudio } from '../lib/ffmpeg';
+import { getStorage } from '../lib/storage';
+import { SessionData, activeSessions, removeSession, trackTranscription } from './sessions';
+import { enqueueTranscription } from './transcription';
+import { finalizeSession, markFailed } from './finalize';
+
+export type UploadStage = 'splitting' | 'transcribing' | 'summarizing';
+
+export interface UploadJob {
+  sessionId: string;
+  userId: string;
+  filePath: string; // Uploaded file in the upload directory; removed once processed
+  fileName: string; // Name the user uploaded it as
+  mimeType: string;
+  summarizer: string;
+}
+
+function emitProgress(
+  io: Server,
+  sessionId: string,
+  stage: UploadStage,
+  completedChunks = 0,
+  totalChunks = 0
+) {
+  io.to(sessionId).emit('upload-progress', {
+    sessionId,
+    stage,
+    completedChunks,
+    totalChunks,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Keep the uploaded file as the session's original audio
+ * Failures are logged; the transcript is still produced without playback audio
+ */
+async function storeOriginalAudio(job: UploadJob): Promise<void> {
+  try {
+    const storage = getStorage();
+    const extension = path.extname(job.fileName).toLowerCase() || '.bin';
+    const key = `sessions/${job.userId}/${job.sessionId}${extension}`;
+    const { size } = await fs.stat(job.filePath);
+
+    await storage.put(key, createReadStream(job.filePath), {
+      contentType: job.mimeType,
+      contentLength: size,
+    });
+
+    const { error } = await supabase.from('sessions').update({
+      audio_path: key,
+      audio_mime: job.mimeType,
+      updated_at: new Date().toISOString(),
+    }).eq('id', job.sessionId);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error(`Error storing uploaded audio for ${job.sessionId}:`, error);
+  }
+}
+
+/**
+ * Transcribe and summarize an uploaded recording
+ * The session row must already exist; it ends up `completed` or `failed`
+ */
+export async function processUpload(io: Server, job: UploadJob): Promise<void> {
+  const { sessionId } = job;
+  const chunkDir = path.join(config.uploadDir, `${sessionId}-chunks`);
+  let finalizing = false;
+
+  try {
+    emitProgress(io, sessionId, 'splitting');
+
+    const durationMs = await probeDuration(job.filePath);
+    const chunkFiles = await splitAudio(job.filePath, chunkDir, config.uploadChunkSeconds);
+
+    if (chunkFiles.length === 0) {
+      throw new Error('The file has no audio track');
+    }
+
+    await storeOriginalAudio(job);
+
+    const session: SessionData = {
+      sessionId,
+      userId: job.userId,
+      socketId: '',
+      audio: createAudioSpool(config.audioSpoolDir, sessionId), // Stays empty: the original is already stored
+      transcriptChunks: new Map(),
+      transcriptSegments: new Map(),
+      contextualChunks: new Set(),
+      receivedSeqs: new Set(),
+      pendingTranscriptions: new Map(),
+      expectedChunkCount: chunkFiles.length,
+      chunkWaiters: [],
+      startTime: Date.now(),
+      autoPaused: false,
+      totalPausedDuration: 0,
+      userPausedDuration: 0,
+      audioSource: 'upload',
+      mimeType: CHUNK_MIME_TYPE,
+      container: 'ogg',
+      summarizer: job.summarizer,
+      finalizing: false,
+    };
+
+    activeSessions.set(sessionId, session);
+
+    // Queue every chunk, then wait for all of them: an upload can take far longer than FINALIZE_TIMEOUT_MS
+    let completed = 0;
+    const chunkMs = config.uploadChunkSeconds * 1000;
+    const transcriptions: Promise<void>[] = [];
+    emitProgress(io, sessionId, 'transcribing', 0, chunkFiles.length);
+
+    try {
+      for (const [chunkIndex, file] of chunkFiles.entries()) {
+        const audio = await fs.readFile(file);
+        session.receivedSeqs.add(chunkIndex);
+
+        // Chunks are cut at fixed offsets into the file, the last one ending with the audio
+        const timing = {
+          timestamp: Date.now(),
+          mediaStartMs: chunkIndex * chunkMs,
+          mediaEndMs: Math.min((chunkIndex + 1) * chunkMs, durationMs),
+        };
+
+        const transcription = enqueueTranscription(io, session, chunkIndex, timing, audio).finally(() => {
+          emitProgress(io, sessionId, 'transcribing', ++completed, chunkFiles.length);
+        });
+        trackTranscription(session, chunkIndex, transcription);
+        transcriptions.push(transcription);
+      }
+
+      await Promise.all(transcriptions);
+    } catch (error) {
+      removeSession(session);
+      await session.audio.remove().catch(() => undefined);
+      throw error;
+    }
+
+    emitProgress(io, sessionId, 'summarizing', chunkFiles.length, chunkFiles.length);
+
+    finalizing = true;
+    await finalizeSession(io, session);
+    console.log(`📤 Upload processed: ${sessionId} (${chunkFiles.length} chunks)`);
+  } catch (error) {
+    console.error(`Error processing upload ${sessionId}:`, error);
+    // finalizeSession marks the session failed itself
+    if (!finalizing) {
+      await markFailed(io, sessionId);
+    }
+  } finally {
+    await fs.rm(chunkDir, { recursive: true, force: true });
+    await fs.rm(job.filePath, { force: true });
+  }
+}
+
+/**
+ * Delete uploads left behind by a previous process; their sessions are never going to finish
+ * @returns Number of files and chunk directories removed
+ */
+export async function clearStaleUploads(directory: string): Promise<number> {
+  await fs.mkdir(directory, { recursive: true });
+
+  const entries = await fs.readdir(directory);
+  await Promise.all(entries.map((entry) => fs.rm(path.join(directory, entry), { recursive: true, force: true })));
+
+  return entries.length;
+}